@@ -0,0 +1,230 @@
+import type http from 'node:http';
+import process from 'node:process';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+export type Role = 'read' | 'admin';
+
+export interface AccessConfig {
+  readTokens: string[];
+  adminTokens: string[];
+  corsOrigins: string[];
+  rateLimit: number;
+  maxBodyBytes: number;
+  ticketTtlMs: number;
+}
+
+export type AccessError = Error & { status: number; headers?: Record<string, string> };
+
+export interface Principal {
+  client: string;
+  role: Role;
+}
+
+export interface Ticket {
+  token: string;
+  expiresAt: string;
+}
+
+export interface Access {
+  enabled: boolean;
+  cors: (req: http.IncomingMessage, res: http.ServerResponse) => boolean;
+  checkOrigin: (req: http.IncomingMessage) => void;
+  authenticate: (req: http.IncomingMessage, role?: Role) => Principal;
+  authorize: (req: http.IncomingMessage, role: Role) => string;
+  admit: (req: http.IncomingMessage, res: http.ServerResponse, identify: () => Principal) => Principal;
+  issueTicket: (client: string, scope: string) => Ticket;
+  redeemTicket: (token: string | null, scope: string) => string;
+  limit: (client: string, res: http.ServerResponse) => void;
+  readBody: (req: http.IncomingMessage) => Promise<string>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+const RATE_WINDOW_MS = 60_000;
+const MAX_BUCKETS = 10_000;
+
+function splitList(value: string | undefined): string[] {
+  return (value ?? '').split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+export function accessConfigFromEnv(): AccessConfig {
+  return {
+    readTokens: splitList(process.env.RAG_SERVER_READ_TOKENS),
+    adminTokens: splitList(process.env.RAG_SERVER_ADMIN_TOKENS),
+    corsOrigins: splitList(process.env.RAG_SERVER_CORS_ORIGINS),
+    rateLimit: Number(process.env.RAG_SERVER_RATE_LIMIT ?? '120'),
+    maxBodyBytes: Number(process.env.RAG_SERVER_MAX_BODY ?? String(1024 * 1024)),
+    ticketTtlMs: Number(process.env.RAG_SERVER_TICKET_TTL_MS ?? '60000')
+  };
+}
+
+export function accessError(status: number, message: string, headers?: Record<string, string>): AccessError {
+  return Object.assign(new Error(message), { status, headers });
+}
+
+export function isAccessError(error: unknown): error is AccessError {
+  return error instanceof Error && typeof (error as { status?: unknown }).status === 'number';
+}
+
+function digest(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
+
+export function clientAddress(req: http.IncomingMessage): string {
+  return `ip:${req.socket.remoteAddress ?? 'unknown'}`;
+}
+
+function bearerToken(req: http.IncomingMessage): string | null {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(req.headers.authorization ?? '');
+  return match ? match[1] : null;
+}
+
+export function createAccess(config: AccessConfig): Access {
+  const readDigests = config.readTokens.map(digest);
+  const adminDigests = config.adminTokens.map(digest);
+  const enabled = readDigests.length + adminDigests.length > 0;
+  const allowAnyOrigin = config.corsOrigins.includes('*');
+  const buckets = new Map<string, Bucket>();
+  const ticketSecret = randomBytes(32);
+
+  const originAllowed = (origin: string) => allowAnyOrigin || config.corsOrigins.includes(origin);
+  const sign = (payload: string) => createHmac('sha256', ticketSecret).update(payload).digest();
+  const matches = (candidate: Buffer, digests: Buffer[]) => digests.reduce((found, known) => timingSafeEqual(candidate, known) || found, false);
+
+  const limit = (client: string, res: http.ServerResponse) => {
+    if (!(config.rateLimit > 0)) {
+      return;
+    }
+    const now = Date.now();
+    const refill = config.rateLimit / RATE_WINDOW_MS;
+    const bucket = buckets.get(client) ?? { tokens: config.rateLimit, updatedAt: now };
+    bucket.tokens = Math.min(config.rateLimit, bucket.tokens + (now - bucket.updatedAt) * refill);
+    bucket.updatedAt = now;
+    buckets.delete(client);
+    buckets.set(client, bucket);
+    if (buckets.size > MAX_BUCKETS) {
+      buckets.delete(buckets.keys().next().value!);
+    }
+    res.setHeader('x-ratelimit-limit', String(config.rateLimit));
+    if (bucket.tokens < 1) {
+      res.setHeader('x-ratelimit-remaining', '0');
+      throw accessError(429, 'Rate limit exceeded', { 'retry-after': String(Math.ceil((1 - bucket.tokens) / refill / 1000)) });
+    }
+    bucket.tokens -= 1;
+    res.setHeader('x-ratelimit-remaining', String(Math.floor(bucket.tokens)));
+  };
+
+  const authenticate = (req: http.IncomingMessage, role: Role = 'read'): Principal => {
+    if (!enabled) {
+      return { client: clientAddress(req), role: 'admin' };
+    }
+    const token = bearerToken(req);
+    if (!token) {
+      throw accessError(401, 'Missing bearer token', { 'www-authenticate': 'Bearer' });
+    }
+    const candidate = digest(token);
+    const admin = matches(candidate, adminDigests);
+    if (!admin && !matches(candidate, readDigests)) {
+      throw accessError(401, 'Invalid bearer token', { 'www-authenticate': 'Bearer error="invalid_token"' });
+    }
+    if (role === 'admin' && !admin) {
+      throw accessError(403, 'Admin token required');
+    }
+    return { client: `token:${candidate.toString('hex').slice(0, 16)}`, role: admin ? 'admin' : 'read' };
+  };
+
+  return {
+    enabled,
+    cors: (req, res) => {
+      const origin = req.headers.origin;
+      if (!origin) {
+        return false;
+      }
+      if (!originAllowed(origin)) {
+        if (req.method === 'OPTIONS') {
+          throw accessError(403, `Origin not allowed: ${origin}`);
+        }
+        return false;
+      }
+      res.setHeader('access-control-allow-origin', origin);
+      res.setHeader('vary', 'origin');
+      res.setHeader('access-control-expose-headers', 'location, retry-after, x-ratelimit-limit, x-ratelimit-remaining');
+      if (req.method !== 'OPTIONS') {
+        return false;
+      }
+      res.setHeader('access-control-allow-methods', 'GET, POST, OPTIONS');
+      res.setHeader('access-control-allow-headers', 'authorization, content-type');
+      res.setHeader('access-control-max-age', '600');
+      return true;
+    },
+    checkOrigin: (req) => {
+      const origin = req.headers.origin;
+      if (origin && !originAllowed(origin)) {
+        throw accessError(403, `Origin not allowed: ${origin}`);
+      }
+    },
+    authenticate,
+    authorize: (req, role) => authenticate(req, role).client,
+    // Callers are rate-limited per token so that clients behind one address do not
+    // starve each other; only failed or anonymous requests spend the address bucket.
+    admit: (req, res, identify) => {
+      let principal: Principal;
+      try {
+        principal = identify();
+      } catch (error) {
+        limit(clientAddress(req), res);
+        throw error;
+      }
+      limit(principal.client, res);
+      return principal;
+    },
+    issueTicket: (client, scope) => {
+      const expires = Date.now() + config.ticketTtlMs;
+      const payload = Buffer.from(JSON.stringify([scope, expires, client])).toString('base64url');
+      return { token: `${payload}.${sign(payload).toString('base64url')}`, expiresAt: new Date(expires).toISOString() };
+    },
+    redeemTicket: (token, scope) => {
+      const [payload, signature] = (token ?? '').split('.');
+      const expected = payload ? sign(payload) : null;
+      const actual = Buffer.from(signature ?? '', 'base64url');
+      if (!expected || actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+        throw accessError(401, 'Invalid ticket');
+      }
+      const [ticketScope, expires, client] = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as [string, number, string];
+      if (ticketScope !== scope) {
+        throw accessError(403, `Ticket is not valid for ${scope}`);
+      }
+      if (Date.now() > expires) {
+        throw accessError(401, 'Ticket expired');
+      }
+      return client;
+    },
+    limit,
+    readBody: (req) => new Promise((resolve, reject) => {
+      const tooLarge = () => accessError(413, `Request body exceeds ${config.maxBodyBytes} bytes`, { connection: 'close' });
+      const declared = Number(req.headers['content-length']);
+      if (Number.isFinite(declared) && declared > config.maxBodyBytes) {
+        req.resume();
+        reject(tooLarge());
+        return;
+      }
+      const chunks: Buffer[] = [];
+      let size = 0;
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > config.maxBodyBytes) {
+          req.removeAllListeners('data');
+          req.resume();
+          reject(tooLarge());
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      req.on('error', reject);
+    })
+  };
+}
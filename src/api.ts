@@ -0,0 +1,98 @@
+import type { IndexSummary } from './indexer.js';
+import type { GroupBy } from './merge.js';
+import type { PackFormat } from './pack.js';
+import type { ProgressSnapshot } from './progress.js';
+import type { SearchMode, SearchResult } from './searchcore.js';
+
+export type { SearchResult };
+
+export interface SearchRequestBody {
+  query?: string;
+  q?: string;
+  vector?: number[];
+  mode?: SearchMode;
+  limit?: number;
+  path?: string | string[];
+  lang?: string | string[];
+  exclude?: string | string[];
+  filter?: string;
+  semanticRatio?: number;
+  rerank?: boolean;
+  rev?: string;
+  context?: number;
+  perFile?: number;
+  groupBy?: GroupBy;
+  includeContent?: boolean;
+  repo?: string | string[];
+}
+
+export interface ContextRequestBody extends Omit<SearchRequestBody, 'context' | 'groupBy' | 'includeContent'> {
+  budget?: number;
+  format?: PackFormat;
+}
+
+export interface SimilarRequest {
+  file: string;
+  start?: number;
+  end?: number;
+  limit?: number;
+  path?: string | string[];
+  lang?: string | string[];
+  exclude?: string | string[];
+  filter?: string;
+  rev?: string;
+  context?: number;
+  perFile?: number;
+  groupBy?: GroupBy;
+  includeContent?: boolean;
+  repo?: string | string[];
+}
+
+export interface ReindexJob {
+  id: string;
+  repo: string;
+  status: 'running' | 'completed' | 'failed';
+  startedAt: string;
+  finishedAt: string | null;
+  processedFiles: number;
+  currentFile: string | null;
+  summary: IndexSummary | null;
+  error: string | null;
+}
+
+export interface ReindexAccepted {
+  status: 'accepted';
+  jobId: string;
+}
+
+export interface RepoHealth {
+  name: string;
+  indexUid: string;
+  root: string;
+  commit: string | null;
+  summary: IndexSummary;
+  indexing: boolean;
+  progress: ProgressSnapshot | null;
+}
+
+export interface HealthResponse {
+  status: 'ok';
+  index?: IndexSummary;
+  commit?: string | null;
+  repos: RepoHealth[];
+}
+
+export interface ProgressResponse {
+  indexing: boolean;
+  runs: ProgressSnapshot[];
+}
+
+export interface EventsTicket {
+  token: string;
+  expiresAt: string;
+}
+
+export interface ApiErrorBody {
+  error: string;
+  [key: string]: unknown;
+}
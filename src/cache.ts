@@ -0,0 +1,163 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import process from 'node:process';
+
+import { sha256 } from './fsutil.js';
+
+const CACHE_DIR = path.resolve(process.env.REPO_ROOT ?? '.', process.env.RAG_EMBED_CACHE_DIR ?? '.rag_cache');
+const MAX_BYTES = Number(process.env.RAG_EMBED_CACHE_MAX_BYTES ?? 512 * 1024 * 1024);
+export const CACHE_ENABLED = (process.env.RAG_EMBED_CACHE ?? 'on').toLowerCase() !== 'off';
+// Bumped when the entry encoding changes, so entries in an older format are never
+// read back and age out of the cache through pruning.
+const CACHE_FORMAT = 'f64';
+
+export interface PruneResult {
+  removed: number;
+  entries: number;
+  bytes: number;
+}
+
+let indexPromise: Promise<Map<string, number>> | null = null;
+let totalBytes = 0;
+
+function entryPath(key: string): string {
+  return path.join(CACHE_DIR, key.slice(0, 2), `${key.slice(2)}.bin`);
+}
+
+async function readdirIfExists(dir: string): Promise<string[]> {
+  try {
+    return await fs.readdir(dir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+async function loadIndex(): Promise<Map<string, number>> {
+  const found: Array<{ key: string; size: number; mtimeMs: number }> = [];
+  for (const prefix of await readdirIfExists(CACHE_DIR)) {
+    if (!/^[0-9a-f]{2}$/.test(prefix)) {
+      continue;
+    }
+    for (const name of await readdirIfExists(path.join(CACHE_DIR, prefix))) {
+      if (!name.endsWith('.bin')) {
+        continue;
+      }
+      const stats = await fs.stat(path.join(CACHE_DIR, prefix, name));
+      found.push({ key: `${prefix}${name.slice(0, -4)}`, size: stats.size, mtimeMs: stats.mtimeMs });
+    }
+  }
+  found.sort((a, b) => a.mtimeMs - b.mtimeMs);
+  const index = new Map<string, number>();
+  totalBytes = 0;
+  for (const entry of found) {
+    index.set(entry.key, entry.size);
+    totalBytes += entry.size;
+  }
+  return index;
+}
+
+async function getIndex(): Promise<Map<string, number>> {
+  if (!indexPromise) {
+    indexPromise = loadIndex();
+  }
+  return indexPromise;
+}
+
+export function cacheKey(modelId: string, text: string): string {
+  return sha256(`${CACHE_FORMAT}\n${modelId}\n${sha256(text)}`);
+}
+
+export async function readCached(keys: string[]): Promise<Array<number[] | undefined>> {
+  const index = await getIndex();
+  const now = new Date();
+  return Promise.all(keys.map(async (key) => {
+    const size = index.get(key);
+    if (size === undefined) {
+      return undefined;
+    }
+    let buffer: Buffer;
+    try {
+      buffer = await fs.readFile(entryPath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      index.delete(key);
+      totalBytes -= size;
+      return undefined;
+    }
+    if (buffer.byteLength === 0 || buffer.byteLength % Float64Array.BYTES_PER_ELEMENT !== 0) {
+      // Left behind by a truncated write; re-embedding is cheaper than a bad vector.
+      await fs.rm(entryPath(key), { force: true });
+      index.delete(key);
+      totalBytes -= size;
+      return undefined;
+    }
+    index.delete(key);
+    index.set(key, size);
+    await fs.utimes(entryPath(key), now, now).catch(() => undefined);
+    return Array.from(new Float64Array(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength)));
+  }));
+}
+
+export async function writeCached(entries: Array<{ key: string; vector: number[] }>): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+  const index = await getIndex();
+  for (const { key, vector } of entries) {
+    const target = entryPath(key);
+    const data = Buffer.from(Float64Array.from(vector).buffer);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(`${target}.tmp`, data);
+    await fs.rename(`${target}.tmp`, target);
+    totalBytes += data.byteLength - (index.get(key) ?? 0);
+    index.delete(key);
+    index.set(key, data.byteLength);
+  }
+  if (totalBytes > MAX_BYTES) {
+    await pruneCache(MAX_BYTES);
+  }
+}
+
+export async function pruneCache(maxBytes = MAX_BYTES): Promise<PruneResult> {
+  const index = await getIndex();
+  let removed = 0;
+  for (const [key, size] of index) {
+    if (totalBytes <= maxBytes) {
+      break;
+    }
+    await fs.rm(entryPath(key), { force: true });
+    index.delete(key);
+    totalBytes -= size;
+    removed += 1;
+  }
+  return { removed, entries: index.size, bytes: totalBytes };
+}
+
+async function cliMain() {
+  const [command = 'prune', ...rest] = process.argv.slice(2);
+  if (command !== 'prune') {
+    throw new Error(`Unknown cache command: ${command}`);
+  }
+  let maxBytes = MAX_BYTES;
+  const flagIndex = rest.indexOf('--max-bytes');
+  if (flagIndex !== -1) {
+    maxBytes = Number(rest[flagIndex + 1]);
+    if (!Number.isFinite(maxBytes) || maxBytes < 0) {
+      throw new Error('--max-bytes must be a non-negative number');
+    }
+  }
+  const result = await pruneCache(maxBytes);
+  console.log(JSON.stringify({ event: 'cache', action: 'prune', dir: CACHE_DIR, ...result }));
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  cliMain().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
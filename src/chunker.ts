@@ -0,0 +1,205 @@
+import { chunkByLines } from './fsutil.js';
+
+export interface Chunk {
+  start: number;
+  end: number;
+  text: string;
+  symbolName?: string;
+  symbolKind?: string;
+  symbolNames?: string[];
+}
+
+export interface Section {
+  start: number;
+  end: number;
+  name?: string;
+  kind?: string;
+  names?: string[];
+}
+
+export type Chunker = (lines: string[]) => Section[];
+
+const CHUNKERS = new Map<string, Chunker>();
+
+export function registerChunker(extensions: string[], chunker: Chunker): void {
+  for (const ext of extensions) {
+    CHUNKERS.set(ext.toLowerCase(), chunker);
+  }
+}
+
+const STRATEGY = (process.env.RAG_CHUNKER ?? 'symbols').toLowerCase();
+const MIN_SECTION_LINES = Number(process.env.RAG_CHUNK_MIN_LINES ?? '10');
+
+const TS_DECLARATION = /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(function\*?|class|interface|type|enum|const|let|var|namespace|module)\s+([A-Za-z_$][\w$]*)/;
+const TS_EXPORT_DEFAULT = /^export\s+default\b/;
+const TS_LEADING = /^(?:\/\/|\/\*|\*|@)/;
+
+function boundariesToSections(lines: string[], boundaries: Array<{ line: number; name: string; kind: string }>): Section[] {
+  if (boundaries.length === 0) {
+    return [];
+  }
+  const sections: Section[] = [];
+  if (boundaries[0].line > 0) {
+    sections.push({ start: 0, end: boundaries[0].line, kind: 'preamble' });
+  }
+  boundaries.forEach((boundary, index) => {
+    const end = index + 1 < boundaries.length ? boundaries[index + 1].line : lines.length;
+    sections.push({ start: boundary.line, end, name: boundary.name, kind: boundary.kind });
+  });
+  return sections;
+}
+
+function typescriptSections(lines: string[]): Section[] {
+  const boundaries: Array<{ line: number; name: string; kind: string }> = [];
+  for (let i = 0; i < lines.length; i += 1) {
+    const line = lines[i];
+    const match = TS_DECLARATION.exec(line);
+    let name: string | undefined;
+    let kind: string | undefined;
+    if (match) {
+      kind = match[1].replace('*', '');
+      name = match[2];
+    } else if (TS_EXPORT_DEFAULT.test(line)) {
+      kind = 'default';
+      name = 'default';
+    }
+    if (!name || !kind) {
+      continue;
+    }
+    let start = i;
+    while (start > 0 && TS_LEADING.test(lines[start - 1].trim())) {
+      start -= 1;
+    }
+    const previous = boundaries[boundaries.length - 1];
+    if (previous && start <= previous.line) {
+      start = i;
+    }
+    boundaries.push({ line: start, name, kind });
+  }
+  return boundariesToSections(lines, boundaries);
+}
+
+function markdownSections(lines: string[]): Section[] {
+  const boundaries: Array<{ line: number; name: string; kind: string }> = [];
+  let inFence = false;
+  lines.forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    if (inFence) {
+      return;
+    }
+    const match = /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+    if (match) {
+      boundaries.push({ line: index, name: match[2], kind: `h${match[1].length}` });
+    }
+  });
+  return boundariesToSections(lines, boundaries);
+}
+
+function jsonSections(lines: string[]): Section[] {
+  const boundaries: Array<{ line: number; name: string; kind: string }> = [];
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  lines.forEach((line, index) => {
+    if (depth === 1 && !inString) {
+      const match = /^\s*"((?:[^"\\]|\\.)*)"\s*:/.exec(line);
+      if (match) {
+        boundaries.push({ line: index, name: match[1], kind: 'key' });
+      }
+    }
+    for (const char of line) {
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+        }
+        continue;
+      }
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        depth += 1;
+      } else if (char === '}' || char === ']') {
+        depth -= 1;
+      }
+    }
+  });
+  return boundariesToSections(lines, boundaries);
+}
+
+function yamlSections(lines: string[]): Section[] {
+  const boundaries: Array<{ line: number; name: string; kind: string }> = [];
+  lines.forEach((line, index) => {
+    const match = /^(?!-|#|\s)(["']?)([^:#]+?)\1\s*:(?:\s|$)/.exec(line);
+    if (match) {
+      boundaries.push({ line: index, name: match[2], kind: 'key' });
+    }
+  });
+  return boundariesToSections(lines, boundaries);
+}
+
+registerChunker(['ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs'], typescriptSections);
+registerChunker(['md', 'mdx'], markdownSections);
+registerChunker(['json'], jsonSections);
+registerChunker(['yml', 'yaml'], yamlSections);
+
+function mergeSmallSections(sections: Section[], maxLines: number): Section[] {
+  const merged: Section[] = [];
+  for (const section of sections) {
+    const current = merged[merged.length - 1];
+    if (current && current.end - current.start < MIN_SECTION_LINES && section.end - current.start <= maxLines) {
+      if (!current.name) {
+        current.name = section.name;
+        current.kind = section.kind ?? current.kind;
+      }
+      if (section.name) {
+        current.names = [...(current.names ?? []), section.name];
+      }
+      current.end = section.end;
+      continue;
+    }
+    merged.push({ ...section, names: section.name ? [section.name] : undefined });
+  }
+  return merged;
+}
+
+export function chunkFile(rel: string, text: string, maxLines = 150, overlap = 30): Chunk[] {
+  const ext = rel.split('.').pop()?.toLowerCase() ?? '';
+  const chunker = STRATEGY === 'lines' ? undefined : CHUNKERS.get(ext);
+  if (!chunker) {
+    return chunkByLines(text, maxLines, overlap);
+  }
+  const lines = text.split(/\r?\n/);
+  const sections = mergeSmallSections(chunker(lines), maxLines);
+  if (sections.length === 0) {
+    return chunkByLines(text, maxLines, overlap);
+  }
+  const chunks: Chunk[] = [];
+  for (const section of sections) {
+    const body = lines.slice(section.start, section.end).join('\n');
+    const pieces = section.end - section.start > maxLines
+      ? chunkByLines(body, maxLines, overlap)
+      : [{ start: 1, end: section.end - section.start, text: body }];
+    for (const piece of pieces) {
+      chunks.push({
+        start: section.start + piece.start,
+        end: section.start + piece.end,
+        text: piece.text,
+        symbolName: section.name,
+        symbolKind: section.kind,
+        symbolNames: section.names
+      });
+    }
+  }
+  return chunks;
+}
+
+export function chunkerId(): string {
+  return STRATEGY === 'lines' ? 'lines' : `symbols:${MIN_SECTION_LINES}`;
+}
@@ -0,0 +1,123 @@
+import type {
+  ApiErrorBody,
+  ContextRequestBody,
+  EventsTicket,
+  HealthResponse,
+  ProgressResponse,
+  ReindexAccepted,
+  ReindexJob,
+  SearchRequestBody,
+  SearchResult,
+  SimilarRequest
+} from './api.js';
+
+export interface ClientOptions {
+  baseUrl: string;
+  token?: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+}
+
+export interface WaitOptions {
+  intervalMs?: number;
+  timeoutMs?: number;
+}
+
+export interface ApiClient {
+  search: (request: SearchRequestBody) => Promise<SearchResult>;
+  context: (request: ContextRequestBody) => Promise<SearchResult>;
+  similar: (request: SimilarRequest) => Promise<SearchResult>;
+  reindex: (repo?: string) => Promise<ReindexAccepted>;
+  reindexStatus: (jobId: string) => Promise<ReindexJob>;
+  waitForReindex: (jobId: string, options?: WaitOptions) => Promise<ReindexJob>;
+  health: () => Promise<HealthResponse>;
+  progress: () => Promise<ProgressResponse>;
+  eventsTicket: () => Promise<EventsTicket>;
+  eventsUrl: () => Promise<string>;
+}
+
+export type ApiError = Error & { status: number; body: ApiErrorBody | null };
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof Error && typeof (error as { status?: unknown }).status === 'number';
+}
+
+function queryString(params: object): string {
+  const search = new URLSearchParams();
+  for (const [name, value] of Object.entries(params)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item !== undefined && item !== null) {
+        search.append(name, String(item));
+      }
+    }
+  }
+  const text = search.toString();
+  return text ? `?${text}` : '';
+}
+
+export function createClient(options: ClientOptions): ApiClient {
+  const baseUrl = options.baseUrl.replace(/\/$/, '');
+  const fetchImpl = options.fetch ?? fetch;
+
+  const request = async <T>(method: 'GET' | 'POST', pathname: string, body?: unknown): Promise<T> => {
+    const headers: Record<string, string> = { accept: 'application/json', ...options.headers };
+    if (options.token) {
+      headers.authorization = `Bearer ${options.token}`;
+    }
+    if (body !== undefined) {
+      headers['content-type'] = 'application/json';
+    }
+    const response = await fetchImpl(`${baseUrl}${pathname}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: options.timeoutMs ? AbortSignal.timeout(options.timeoutMs) : undefined
+    });
+    const text = await response.text();
+    let payload: unknown = null;
+    try {
+      payload = text ? JSON.parse(text) : null;
+    } catch {
+      payload = null;
+    }
+    if (!response.ok) {
+      const errorBody = payload && typeof payload === 'object' && 'error' in payload ? (payload as ApiErrorBody) : null;
+      const message = errorBody ? String(errorBody.error) : text || response.statusText;
+      const error: ApiError = Object.assign(new Error(`${method} ${pathname} failed (${response.status}): ${message}`), {
+        status: response.status,
+        body: errorBody
+      });
+      throw error;
+    }
+    return payload as T;
+  };
+
+  const reindexStatus = (jobId: string) => request<ReindexJob>('GET', `/reindex/${encodeURIComponent(jobId)}`);
+  const eventsTicket = () => request<EventsTicket>('POST', '/events/token');
+
+  return {
+    search: (body) => request<SearchResult>('POST', '/search', body),
+    context: (body) => request<SearchResult>('POST', '/context', body),
+    similar: (params) => request<SearchResult>('GET', `/similar${queryString(params)}`),
+    reindex: (repo) => request<ReindexAccepted>('POST', `/reindex${queryString({ repo })}`),
+    reindexStatus,
+    waitForReindex: async (jobId, wait = {}) => {
+      const deadline = Date.now() + (wait.timeoutMs ?? 30 * 60_000);
+      for (;;) {
+        const job = await reindexStatus(jobId);
+        if (job.status !== 'running') {
+          return job;
+        }
+        if (Date.now() >= deadline) {
+          throw new Error(`Timed out waiting for reindex job ${jobId}`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, wait.intervalMs ?? 1_000));
+      }
+    },
+    health: () => request<HealthResponse>('GET', '/health'),
+    progress: () => request<ProgressResponse>('GET', '/progress'),
+    eventsTicket,
+    eventsUrl: async () => (options.token ? `${baseUrl}/events${queryString({ token: (await eventsTicket()).token })}` : `${baseUrl}/events`)
+  };
+}
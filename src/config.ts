@@ -0,0 +1,101 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import process from 'node:process';
+
+export interface RepoConfig {
+  name: string;
+  root: string;
+  indexUid: string;
+  ignore: string[];
+  chunkLines: number;
+  chunkOverlap: number;
+  stateFile: string;
+}
+
+interface RawRepoConfig {
+  name?: unknown;
+  root?: unknown;
+  index?: unknown;
+  ignore?: unknown;
+  chunkLines?: unknown;
+  chunkOverlap?: unknown;
+  stateFile?: unknown;
+}
+
+const INDEX_UID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export function defaultRepoConfig(): RepoConfig {
+  const root = path.resolve(process.env.REPO_ROOT ?? '.');
+  return {
+    name: path.basename(root),
+    root,
+    indexUid: process.env.INDEX_UID ?? 'repo',
+    ignore: [],
+    chunkLines: Number(process.env.RAG_CHUNK_LINES ?? '150'),
+    chunkOverlap: Number(process.env.RAG_CHUNK_OVERLAP ?? '30'),
+    stateFile: path.resolve(root, process.env.RAG_STATE_FILE ?? '.rag_state.json')
+  };
+}
+
+export function repoIgnorePatterns(repo: RepoConfig): string[] {
+  const stateFile = path.relative(repo.root, repo.stateFile).split(path.sep).join('/');
+  if (!stateFile || stateFile.startsWith('..') || path.isAbsolute(stateFile)) {
+    return repo.ignore;
+  }
+  return [...repo.ignore, `/${stateFile}`, `/${stateFile}.tmp`, `/${stateFile}.lock`];
+}
+
+function parseRepo(raw: RawRepoConfig, baseDir: string, position: number): RepoConfig {
+  const defaults = defaultRepoConfig();
+  if (typeof raw.root !== 'string' || !raw.root) {
+    throw new Error(`repositories[${position}].root is required`);
+  }
+  const root = path.resolve(baseDir, raw.root);
+  const name = typeof raw.name === 'string' && raw.name ? raw.name : path.basename(root);
+  const indexUid = typeof raw.index === 'string' && raw.index ? raw.index : name;
+  if (!INDEX_UID_PATTERN.test(indexUid)) {
+    throw new Error(`repositories[${position}].index must match ${INDEX_UID_PATTERN}: ${indexUid}`);
+  }
+  if (raw.ignore !== undefined && (!Array.isArray(raw.ignore) || raw.ignore.some((item) => typeof item !== 'string'))) {
+    throw new Error(`repositories[${position}].ignore must be an array of strings`);
+  }
+  const chunkLines = raw.chunkLines ?? defaults.chunkLines;
+  const chunkOverlap = raw.chunkOverlap ?? defaults.chunkOverlap;
+  if (typeof chunkLines !== 'number' || !Number.isInteger(chunkLines) || chunkLines <= 0) {
+    throw new Error(`repositories[${position}] ("${name}"): chunkLines must be a positive integer`);
+  }
+  if (typeof chunkOverlap !== 'number' || !Number.isInteger(chunkOverlap) || chunkOverlap < 0 || chunkOverlap >= chunkLines) {
+    throw new Error(`repositories[${position}] ("${name}"): chunkOverlap must be an integer from 0 to chunkLines - 1 (${chunkLines - 1})`);
+  }
+  return {
+    name,
+    root,
+    indexUid,
+    ignore: (raw.ignore as string[] | undefined) ?? [],
+    chunkLines,
+    chunkOverlap,
+    stateFile: path.resolve(root, typeof raw.stateFile === 'string' ? raw.stateFile : '.rag_state.json')
+  };
+}
+
+export async function loadRepoConfigs(file: string): Promise<RepoConfig[]> {
+  const resolved = path.resolve(file);
+  const raw = JSON.parse(await fs.readFile(resolved, 'utf8')) as { repositories?: unknown };
+  if (!Array.isArray(raw.repositories) || raw.repositories.length === 0) {
+    throw new Error(`${file}: "repositories" must be a non-empty array`);
+  }
+  const repos = raw.repositories.map((entry, position) => parseRepo(entry as RawRepoConfig, path.dirname(resolved), position));
+  const names = new Set<string>();
+  const indexes = new Set<string>();
+  for (const repo of repos) {
+    if (names.has(repo.name)) {
+      throw new Error(`${file}: duplicate repository name "${repo.name}"`);
+    }
+    if (indexes.has(repo.indexUid)) {
+      throw new Error(`${file}: duplicate index uid "${repo.indexUid}"`);
+    }
+    names.add(repo.name);
+    indexes.add(repo.indexUid);
+  }
+  return repos;
+}
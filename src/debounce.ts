@@ -0,0 +1,34 @@
+export interface Debouncer {
+  schedule: () => void;
+  cancel: () => void;
+}
+
+// Runs `run` once calls to schedule() have been quiet for `debounceMs`, but no
+// later than `maxWaitMs` after the first call of a burst, so a steady stream of
+// events still gets flushed.
+export function createDebouncer(run: () => void, debounceMs: number, maxWaitMs: number): Debouncer {
+  let timer: NodeJS.Timeout | null = null;
+  let deadline = 0;
+
+  const schedule = () => {
+    const now = Date.now();
+    if (timer) {
+      clearTimeout(timer);
+    } else {
+      deadline = now + maxWaitMs;
+    }
+    timer = setTimeout(() => {
+      timer = null;
+      run();
+    }, Math.max(0, Math.min(debounceMs, deadline - now)));
+  };
+
+  const cancel = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  return { schedule, cancel };
+}
@@ -0,0 +1,387 @@
+import fs from 'node:fs/promises';
+import process from 'node:process';
+
+import { buildFilter } from './filters.js';
+import { EMBEDDER_NAME, INDEX_UID, fetchDocuments, revisionIndexUid } from './store.js';
+
+const PAGE_SIZE = Number(process.env.RAG_DUP_PAGE_SIZE ?? '1000');
+const LSH_TABLES = Number(process.env.RAG_DUP_LSH_TABLES ?? '16');
+const LSH_BITS = Math.min(30, Number(process.env.RAG_DUP_LSH_BITS ?? '12'));
+const MAX_BUCKET = Number(process.env.RAG_DUP_MAX_BUCKET ?? '256');
+const LSH_SEED = 0x5eed;
+
+type ReportFormat = 'markdown' | 'json';
+
+export interface DuplicatesArgs {
+  index: string;
+  threshold: number;
+  minLines: number;
+  minGap: number;
+  limit: number;
+  format: ReportFormat;
+  out?: string;
+  filter?: string;
+}
+
+export interface Chunk {
+  id: string;
+  filePath: string;
+  startLine: number;
+  endLine: number;
+  symbolName?: string;
+  vector: Float32Array;
+}
+
+export interface DuplicatePair {
+  a: number;
+  b: number;
+  similarity: number;
+}
+
+interface ClusterMember {
+  filePath: string;
+  startLine: number;
+  endLine: number;
+  symbolName?: string;
+}
+
+export interface Cluster {
+  size: number;
+  maxSimilarity: number;
+  averageSimilarity: number;
+  members: ClusterMember[];
+  pairs: Array<{ a: string; b: string; similarity: number }>;
+}
+
+function parseNumber(flag: string, value: string | undefined, min: number, max = Infinity): number {
+  const parsed = Number(value);
+  if (value === undefined || !Number.isFinite(parsed) || parsed < min || parsed > max) {
+    throw new Error(`Expected number ${max === Infinity ? `>= ${min}` : `between ${min} and ${max}`} after ${flag}`);
+  }
+  return parsed;
+}
+
+export function parseArgs(argv: string[]): DuplicatesArgs {
+  let index = INDEX_UID;
+  let threshold = Number(process.env.RAG_DUP_THRESHOLD ?? '0.92');
+  let minLines = Number(process.env.RAG_DUP_MIN_LINES ?? '5');
+  let minGap = Number(process.env.RAG_DUP_MIN_GAP ?? '20');
+  let limit = 50;
+  let format: ReportFormat = 'markdown';
+  let out: string | undefined;
+  const paths: string[] = [];
+  const languages: string[] = [];
+  const excludes: string[] = [];
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--index': {
+        const next = argv[++i];
+        if (!next || next.startsWith('-')) {
+          throw new Error('Expected index uid after --index');
+        }
+        index = next;
+        break;
+      }
+      case '--rev': {
+        const next = argv[++i];
+        if (!next) {
+          throw new Error('Expected git revision after --rev');
+        }
+        index = revisionIndexUid(next);
+        break;
+      }
+      case '--threshold':
+        threshold = parseNumber(arg, argv[++i], 0, 1);
+        break;
+      case '--min-lines':
+        minLines = parseNumber(arg, argv[++i], 1);
+        break;
+      case '--min-gap':
+        minGap = parseNumber(arg, argv[++i], 0);
+        break;
+      case '--limit':
+      case '-l':
+        limit = parseNumber(arg, argv[++i], 1);
+        break;
+      case '--json':
+        format = 'json';
+        break;
+      case '--format': {
+        const next = (argv[++i] ?? '').toLowerCase();
+        if (next === 'json') {
+          format = 'json';
+        } else if (next === 'md' || next === 'markdown') {
+          format = 'markdown';
+        } else {
+          throw new Error(`Unsupported format: ${next} (expected json or markdown)`);
+        }
+        break;
+      }
+      case '--out':
+      case '-o':
+        out = argv[++i];
+        if (!out) {
+          throw new Error('Expected file path after --out');
+        }
+        break;
+      case '--path':
+      case '--lang':
+      case '--exclude': {
+        const next = argv[++i];
+        if (!next) {
+          throw new Error(`Expected value after ${arg}`);
+        }
+        (arg === '--path' ? paths : arg === '--lang' ? languages : excludes).push(next);
+        break;
+      }
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return { index, threshold, minLines, minGap, limit, format, out, filter: buildFilter({ paths, languages, excludes }) };
+}
+
+function storedVector(doc: Record<string, unknown>): number[] | null {
+  const entry = (doc._vectors as Record<string, unknown> | undefined)?.[EMBEDDER_NAME];
+  const embeddings = Array.isArray(entry) ? entry : (entry as { embeddings?: unknown } | undefined)?.embeddings;
+  if (!Array.isArray(embeddings) || embeddings.length === 0) {
+    return null;
+  }
+  return (Array.isArray(embeddings[0]) ? embeddings[0] : embeddings) as number[];
+}
+
+export function normalize(values: number[]): Float32Array | null {
+  const vector = Float32Array.from(values);
+  let norm = 0;
+  for (const value of vector) {
+    norm += value * value;
+  }
+  if (norm === 0) {
+    return null;
+  }
+  norm = Math.sqrt(norm);
+  for (let i = 0; i < vector.length; i += 1) {
+    vector[i] /= norm;
+  }
+  return vector;
+}
+
+async function loadChunks(args: DuplicatesArgs): Promise<Chunk[]> {
+  const chunks: Chunk[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await fetchDocuments(args.index, {
+      offset,
+      limit: PAGE_SIZE,
+      fields: ['id', 'filePath', 'startLine', 'endLine', 'symbolName', '_vectors'],
+      filter: args.filter,
+      retrieveVectors: true
+    });
+    for (const doc of page.results) {
+      const values = storedVector(doc);
+      const vector = values ? normalize(values) : null;
+      if (!vector || typeof doc.filePath !== 'string' || typeof doc.startLine !== 'number' || typeof doc.endLine !== 'number') {
+        continue;
+      }
+      if (doc.endLine - doc.startLine + 1 < args.minLines) {
+        continue;
+      }
+      chunks.push({
+        id: String(doc.id),
+        filePath: doc.filePath,
+        startLine: doc.startLine,
+        endLine: doc.endLine,
+        symbolName: typeof doc.symbolName === 'string' ? doc.symbolName : undefined,
+        vector
+      });
+    }
+    if (page.results.length < PAGE_SIZE || offset + PAGE_SIZE >= page.total) {
+      break;
+    }
+  }
+  return chunks;
+}
+
+function seededGaussian(seed: number): () => number {
+  let state = seed >>> 0;
+  const uniform = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (((t ^ (t >>> 14)) >>> 0) + 1) / 4294967297;
+  };
+  return () => Math.sqrt(-2 * Math.log(uniform())) * Math.cos(2 * Math.PI * uniform());
+}
+
+function dot(a: Float32Array, b: Float32Array, offset = 0): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    sum += a[i] * b[offset + i];
+  }
+  return sum;
+}
+
+function isCandidatePair(a: Chunk, b: Chunk, minGap: number): boolean {
+  if (a.filePath !== b.filePath) {
+    return true;
+  }
+  const gap = Math.max(a.startLine, b.startLine) - Math.min(a.endLine, b.endLine) - 1;
+  return gap >= minGap;
+}
+
+// Random-hyperplane LSH: chunks are compared only when they share a bucket in at least one table,
+// and oversized buckets are scanned with a sliding window so a single hot bucket stays linear.
+export function findPairs(chunks: Chunk[], args: DuplicatesArgs): DuplicatePair[] {
+  if (chunks.length < 2) {
+    return [];
+  }
+  const dimensions = chunks[0].vector.length;
+  const random = seededGaussian(LSH_SEED);
+  const planes = new Float32Array(LSH_TABLES * (LSH_BITS + 1) * dimensions);
+  for (let i = 0; i < planes.length; i += 1) {
+    planes[i] = random();
+  }
+
+  const found = new Map<string, DuplicatePair>();
+  const compare = (a: number, b: number) => {
+    const [first, second] = a < b ? [a, b] : [b, a];
+    const key = `${first}:${second}`;
+    if (found.has(key) || !isCandidatePair(chunks[first], chunks[second], args.minGap)) {
+      return;
+    }
+    const similarity = dot(chunks[first].vector, chunks[second].vector);
+    if (similarity >= args.threshold) {
+      found.set(key, { a: first, b: second, similarity });
+    }
+  };
+
+  for (let table = 0; table < LSH_TABLES; table += 1) {
+    const base = table * (LSH_BITS + 1) * dimensions;
+    const buckets = new Map<number, number[]>();
+    chunks.forEach((chunk, index) => {
+      if (chunk.vector.length !== dimensions) {
+        return;
+      }
+      let hash = 0;
+      for (let bit = 0; bit < LSH_BITS; bit += 1) {
+        if (dot(chunk.vector, planes, base + bit * dimensions) >= 0) {
+          hash |= 1 << bit;
+        }
+      }
+      const bucket = buckets.get(hash) ?? [];
+      bucket.push(index);
+      buckets.set(hash, bucket);
+    });
+    for (const bucket of buckets.values()) {
+      if (bucket.length > MAX_BUCKET) {
+        const order = base + LSH_BITS * dimensions;
+        const projections = new Map(bucket.map((index) => [index, dot(chunks[index].vector, planes, order)]));
+        bucket.sort((a, b) => projections.get(a)! - projections.get(b)!);
+      }
+      for (let i = 0; i < bucket.length; i += 1) {
+        for (let j = i + 1; j < Math.min(bucket.length, i + 1 + MAX_BUCKET); j += 1) {
+          compare(bucket[i], bucket[j]);
+        }
+      }
+    }
+  }
+  return [...found.values()];
+}
+
+function location(chunk: Chunk): string {
+  return `${chunk.filePath}:${chunk.startLine}-${chunk.endLine}`;
+}
+
+export function clusterPairs(chunks: Chunk[], pairs: DuplicatePair[]): Cluster[] {
+  const parent = new Map<number, number>();
+  const find = (index: number): number => {
+    let root = index;
+    while (parent.has(root) && parent.get(root) !== root) {
+      root = parent.get(root)!;
+    }
+    parent.set(index, root);
+    return root;
+  };
+  for (const pair of pairs) {
+    const a = find(pair.a);
+    const b = find(pair.b);
+    if (a !== b) {
+      parent.set(Math.max(a, b), Math.min(a, b));
+    }
+  }
+
+  const groups = new Map<number, DuplicatePair[]>();
+  for (const pair of pairs) {
+    const root = find(pair.a);
+    const group = groups.get(root) ?? [];
+    group.push(pair);
+    groups.set(root, group);
+  }
+
+  return [...groups.values()].map((group) => {
+    const members = [...new Set(group.flatMap((pair) => [pair.a, pair.b]))]
+      .map((index) => chunks[index])
+      .sort((a, b) => a.filePath.localeCompare(b.filePath) || a.startLine - b.startLine);
+    const sorted = [...group].sort((a, b) => b.similarity - a.similarity);
+    return {
+      size: members.length,
+      maxSimilarity: sorted[0].similarity,
+      averageSimilarity: group.reduce((sum, pair) => sum + pair.similarity, 0) / group.length,
+      members: members.map(({ filePath, startLine, endLine, symbolName }) => ({ filePath, startLine, endLine, symbolName })),
+      pairs: sorted.map((pair) => ({ a: location(chunks[pair.a]), b: location(chunks[pair.b]), similarity: pair.similarity }))
+    };
+  }).sort((a, b) => b.maxSimilarity - a.maxSimilarity || b.size - a.size);
+}
+
+function renderMarkdown(report: { index: string; chunks: number; threshold: number; clusters: Cluster[]; totalClusters: number }): string {
+  const lines = [
+    '# Near-duplicate code report',
+    '',
+    `Index \`${report.index}\`: ${report.chunks} chunks compared, similarity threshold ${report.threshold}, ${report.totalClusters} clusters found${report.totalClusters > report.clusters.length ? ` (top ${report.clusters.length} shown)` : ''}.`
+  ];
+  report.clusters.forEach((cluster, position) => {
+    lines.push(
+      '',
+      `## ${position + 1}. ${cluster.size} chunks, max similarity ${cluster.maxSimilarity.toFixed(3)} (avg ${cluster.averageSimilarity.toFixed(3)})`,
+      ''
+    );
+    for (const member of cluster.members) {
+      lines.push(`- \`${member.filePath}:${member.startLine}-${member.endLine}\`${member.symbolName ? ` — \`${member.symbolName}\`` : ''}`);
+    }
+    lines.push('', '| A | B | Similarity |', '| --- | --- | --- |');
+    for (const pair of cluster.pairs) {
+      lines.push(`| \`${pair.a}\` | \`${pair.b}\` | ${pair.similarity.toFixed(3)} |`);
+    }
+  });
+  return `${lines.join('\n')}\n`;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const chunks = await loadChunks(args);
+  const clusters = clusterPairs(chunks, findPairs(chunks, args));
+  const report = {
+    index: args.index,
+    chunks: chunks.length,
+    threshold: args.threshold,
+    totalClusters: clusters.length,
+    clusters: clusters.slice(0, args.limit)
+  };
+  const output = args.format === 'json' ? `${JSON.stringify(report, null, 2)}\n` : renderMarkdown(report);
+  if (args.out) {
+    await fs.writeFile(args.out, output);
+    console.error(`Wrote ${report.clusters.length} clusters to ${args.out}`);
+    return;
+  }
+  process.stdout.write(output);
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
@@ -1,15 +1,88 @@
+import { setTimeout as delay } from 'node:timers/promises';
 import type { FeatureExtractionPipeline, Tensor } from '@huggingface/transformers';
 
+import { CACHE_ENABLED, cacheKey, readCached, writeCached } from './cache.js';
+
 const BACKEND = (process.env.RAG_EMBED_BACKEND ?? 'transformers').toLowerCase();
 const MODEL_NAME = process.env.RAG_EMBED_MODEL ?? 'Xenova/bge-small-en-v1.5';
 const OLLAMA_MODEL = process.env.RAG_OLLAMA_MODEL ?? 'nomic-embed-text';
 const OLLAMA_BASE_URL = (process.env.OLLAMA_BASE_URL ?? 'http://127.0.0.1:11434').replace(/\/$/, '');
+const OPENAI_BASE_URL = (process.env.RAG_OPENAI_BASE_URL ?? 'http://127.0.0.1:8000/v1').replace(/\/$/, '');
+const OPENAI_API_KEY = process.env.RAG_OPENAI_API_KEY ?? process.env.OPENAI_API_KEY ?? '';
+const OPENAI_MODEL = process.env.RAG_OPENAI_MODEL ?? 'text-embedding-3-small';
+const OPENAI_BATCH_SIZE = Number(process.env.RAG_OPENAI_BATCH_SIZE ?? '64');
+const OPENAI_DIMENSIONS = process.env.RAG_OPENAI_DIMENSIONS ? Number(process.env.RAG_OPENAI_DIMENSIONS) : undefined;
+const OLLAMA_BATCH_SIZE = Number(process.env.RAG_OLLAMA_BATCH_SIZE ?? '32');
+const EMBED_CONCURRENCY = Math.max(1, Number(process.env.RAG_EMBED_CONCURRENCY ?? '2'));
+const EMBED_RETRIES = Number(process.env.RAG_EMBED_RETRIES ?? '4');
+const EMBED_RETRY_BASE_MS = Number(process.env.RAG_EMBED_RETRY_BASE_MS ?? '500');
+const EMBED_MAX_CHARS = Number(process.env.RAG_EMBED_MAX_CHARS ?? '8000');
 
 type FeatureExtractionFactory = (task: 'feature-extraction', model?: string) => Promise<FeatureExtractionPipeline>;
 
 let extractorPromise: Promise<FeatureExtractionPipeline> | null = null;
 let pipelineFactoryPromise: Promise<FeatureExtractionFactory> | null = null;
 let cachedDim: number | null = null;
+let ollamaBatchSupported: boolean | null = null;
+
+function warn(payload: Record<string, unknown>): void {
+  console.warn(JSON.stringify({ event: 'warning', ...payload }));
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+async function requestWithRetry(url: string, init: RequestInit, label: string): Promise<Response> {
+  for (let attempt = 0; ; attempt += 1) {
+    let failure: string;
+    try {
+      const response = await fetch(url, init);
+      if (!isRetryableStatus(response.status) || attempt >= EMBED_RETRIES) {
+        return response;
+      }
+      failure = `${response.status} ${await response.text()}`;
+    } catch (error) {
+      if (attempt >= EMBED_RETRIES) {
+        throw error;
+      }
+      failure = error instanceof Error ? error.message : String(error);
+    }
+    const wait = EMBED_RETRY_BASE_MS * 2 ** attempt;
+    warn({ message: `${label} failed, retrying`, attempt: attempt + 1, delayMs: wait, detail: failure });
+    await delay(wait);
+  }
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next;
+      next += 1;
+      results[index] = await task(items[index]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+function toBatches<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size));
+  }
+  return batches;
+}
+
+function truncateInput(text: string): string {
+  if (text.length <= EMBED_MAX_CHARS) {
+    return text;
+  }
+  warn({ message: 'Embedding input truncated', length: text.length, maxChars: EMBED_MAX_CHARS });
+  return text.slice(0, EMBED_MAX_CHARS);
+}
 
 async function getPipelineFactory(): Promise<FeatureExtractionFactory> {
   if (!pipelineFactoryPromise) {
@@ -33,34 +106,134 @@ async function embedWithTransformers(texts: string[]): Promise<number[][]> {
   return list;
 }
 
+// Servers that predate /api/embed answer with the router's plain "404 page not found",
+// while the endpoint itself reports errors such as an unknown model as JSON.
+function ollamaErrorMessage(body: string): string | null {
+  try {
+    const parsed = JSON.parse(body) as { error?: unknown } | null;
+    return typeof parsed?.error === 'string' ? parsed.error : null;
+  } catch {
+    return null;
+  }
+}
+
+async function embedOllamaBatch(texts: string[]): Promise<number[][] | null> {
+  const response = await requestWithRetry(`${OLLAMA_BASE_URL}/api/embed`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model: OLLAMA_MODEL, input: texts })
+  }, 'Ollama embedding');
+  if (!response.ok) {
+    const body = await response.text();
+    const message = ollamaErrorMessage(body);
+    if (response.status === 404 && message === null) {
+      return null;
+    }
+    throw new Error(`Ollama embedding failed: ${response.status} ${message ?? body}`);
+  }
+  const json = (await response.json()) as { embeddings?: number[][] };
+  if (!Array.isArray(json.embeddings) || json.embeddings.length !== texts.length) {
+    throw new Error('Ollama response missing embeddings array');
+  }
+  return json.embeddings;
+}
+
+async function embedOllamaSingle(text: string): Promise<number[]> {
+  const response = await requestWithRetry(`${OLLAMA_BASE_URL}/api/embeddings`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model: OLLAMA_MODEL, prompt: text })
+  }, 'Ollama embedding');
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`Ollama embedding failed: ${response.status} ${body}`);
+  }
+  const json = (await response.json()) as { embedding?: number[] };
+  if (!Array.isArray(json.embedding)) {
+    throw new Error('Ollama response missing embedding array');
+  }
+  return json.embedding;
+}
+
 async function embedWithOllama(texts: string[]): Promise<number[][]> {
-  const results: number[][] = [];
-  for (const text of texts) {
-    const response = await fetch(`${OLLAMA_BASE_URL}/api/embeddings`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ model: OLLAMA_MODEL, prompt: text })
-    });
-    if (!response.ok) {
-      const body = await response.text();
-      throw new Error(`Ollama embedding failed: ${response.status} ${body}`);
+  const batches = toBatches(texts.map(truncateInput), OLLAMA_BATCH_SIZE);
+  const results = await mapWithConcurrency(batches, EMBED_CONCURRENCY, async (batch) => {
+    if (ollamaBatchSupported !== false) {
+      const vectors = await embedOllamaBatch(batch);
+      if (vectors) {
+        ollamaBatchSupported = true;
+        return vectors;
+      }
+      ollamaBatchSupported = false;
     }
-    const json = (await response.json()) as { embedding?: number[] };
-    if (!Array.isArray(json.embedding)) {
-      throw new Error('Ollama response missing embedding array');
+    const vectors: number[][] = [];
+    for (const text of batch) {
+      vectors.push(await embedOllamaSingle(text));
     }
-    results.push(json.embedding);
+    return vectors;
+  });
+  return results.flat();
+}
+
+async function embedOpenAIBatch(texts: string[]): Promise<number[][]> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (OPENAI_API_KEY) {
+    headers.Authorization = `Bearer ${OPENAI_API_KEY}`;
   }
-  return results;
+  const payload: Record<string, unknown> = { model: OPENAI_MODEL, input: texts };
+  if (OPENAI_DIMENSIONS) {
+    payload.dimensions = OPENAI_DIMENSIONS;
+  }
+  const response = await requestWithRetry(`${OPENAI_BASE_URL}/embeddings`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(payload)
+  }, 'OpenAI embedding');
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`OpenAI embedding failed: ${response.status} ${body}`);
+  }
+  const json = (await response.json()) as { data?: Array<{ index?: number; embedding?: number[] }> };
+  if (!Array.isArray(json.data) || json.data.length !== texts.length) {
+    throw new Error('OpenAI response missing data array');
+  }
+  const vectors = new Array<number[]>(texts.length);
+  json.data.forEach((item, position) => {
+    const index = typeof item.index === 'number' ? item.index : position;
+    if (!Array.isArray(item.embedding) || index < 0 || index >= texts.length) {
+      throw new Error('OpenAI response contains an invalid embedding entry');
+    }
+    vectors[index] = item.embedding;
+  });
+  return vectors;
+}
+
+async function embedWithOpenAI(texts: string[]): Promise<number[][]> {
+  const batches = toBatches(texts.map(truncateInput), OPENAI_BATCH_SIZE);
+  const results = await mapWithConcurrency(batches, EMBED_CONCURRENCY, embedOpenAIBatch);
+  return results.flat();
 }
 
 async function runBackend(texts: string[]): Promise<number[][]> {
   if (BACKEND === 'ollama') {
     return embedWithOllama(texts);
   }
+  if (BACKEND === 'openai') {
+    return embedWithOpenAI(texts);
+  }
   return embedWithTransformers(texts);
 }
 
+export function embeddingModelId(): string {
+  if (BACKEND === 'ollama') {
+    return `ollama:${OLLAMA_MODEL}`;
+  }
+  if (BACKEND === 'openai') {
+    return OPENAI_DIMENSIONS ? `openai:${OPENAI_MODEL}@${OPENAI_DIMENSIONS}` : `openai:${OPENAI_MODEL}`;
+  }
+  return `transformers:${MODEL_NAME}`;
+}
+
 export async function embed(text: string): Promise<number[]>;
 export async function embed(texts: string[]): Promise<number[][]>;
 export async function embed(textOrTexts: string | string[]): Promise<number[] | number[][]> {
@@ -73,6 +246,24 @@ export async function embed(textOrTexts: string | string[]): Promise<number[] |
   return Array.isArray(textOrTexts) ? vectors : vectors[0] ?? [];
 }
 
+export async function embedWithCache(texts: string[]): Promise<number[][]> {
+  if (!CACHE_ENABLED) {
+    return embed(texts);
+  }
+  const modelId = embeddingModelId();
+  const keys = texts.map((text) => cacheKey(modelId, text));
+  const vectors = await readCached(keys);
+  const missing = vectors.flatMap((vector, index) => (vector ? [] : [index]));
+  if (missing.length > 0) {
+    const fresh = await embed(missing.map((index) => texts[index]));
+    missing.forEach((index, position) => {
+      vectors[index] = fresh[position];
+    });
+    await writeCached(missing.map((index, position) => ({ key: keys[index], vector: fresh[position] })));
+  }
+  return vectors as number[][];
+}
+
 export async function getEmbeddingDimension(): Promise<number> {
   if (cachedDim && cachedDim > 0) {
     return cachedDim;
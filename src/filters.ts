@@ -0,0 +1,270 @@
+import { languageFor } from './fsutil.js';
+
+export interface FilterOptions {
+  paths?: string[];
+  languages?: string[];
+  excludes?: string[];
+  filter?: string;
+}
+
+export function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function hasWildcard(value: string): boolean {
+  return /[*?[\]{}]/.test(value);
+}
+
+export function globToFilter(glob: string): string {
+  const normalized = glob.trim().replace(/^\.\//, '').replace(/\/+$/, '');
+  if (!normalized) {
+    throw new Error('Path pattern must not be empty');
+  }
+  if (!hasWildcard(normalized)) {
+    return `(filePath = ${quote(normalized)} OR pathSegments = ${quote(normalized)})`;
+  }
+  const slash = normalized.lastIndexOf('/');
+  const dir = slash === -1 ? '' : normalized.slice(0, slash);
+  const base = slash === -1 ? normalized : normalized.slice(slash + 1);
+  const recursive = dir === '**' || dir.endsWith('/**');
+  const prefix = recursive ? dir.slice(0, -2).replace(/\/$/, '') : dir;
+  if (hasWildcard(prefix)) {
+    throw new Error(`Unsupported path pattern: ${glob}`);
+  }
+  const clauses: string[] = [];
+  if (base === '**') {
+    const target = recursive ? prefix : dir;
+    clauses.push(target ? `pathSegments = ${quote(target)}` : 'filePath EXISTS');
+  } else if (base === '*') {
+    if (recursive) {
+      clauses.push(prefix ? `pathSegments = ${quote(prefix)}` : 'filePath EXISTS');
+    } else {
+      clauses.push(`directory = ${quote(prefix || '.')}`);
+    }
+  } else {
+    const ext = /^\*\.([\w-]+(?:\.[\w-]+)*)$/.exec(base);
+    if (!ext) {
+      throw new Error(`Unsupported path pattern: ${glob}`);
+    }
+    const suffix = ext[1].toLowerCase();
+    clauses.push(suffix.includes('.') ? `suffixes = ${quote(suffix)}` : `extension = ${quote(suffix)}`);
+    if (prefix) {
+      clauses.push(recursive ? `pathSegments = ${quote(prefix)}` : `directory = ${quote(prefix)}`);
+    }
+  }
+  return clauses.length === 1 ? clauses[0] : `(${clauses.join(' AND ')})`;
+}
+
+export function buildFilter(options: FilterOptions): string | undefined {
+  const parts: string[] = [];
+  const paths = (options.paths ?? []).filter((value) => value.trim());
+  if (paths.length) {
+    parts.push(`(${paths.map(globToFilter).join(' OR ')})`);
+  }
+  const languages = (options.languages ?? []).filter((value) => value.trim());
+  if (languages.length) {
+    parts.push(`language IN [${languages.map((value) => quote(languageFor(value.trim()))).join(', ')}]`);
+  }
+  for (const exclude of options.excludes ?? []) {
+    if (exclude.trim()) {
+      parts.push(`NOT ${globToFilter(exclude)}`);
+    }
+  }
+  if (options.filter?.trim()) {
+    parts.push(`(${options.filter.trim()})`);
+  }
+  return parts.length ? parts.join(' AND ') : undefined;
+}
+
+type FilterPredicate = (doc: Record<string, unknown>) => boolean;
+
+interface FilterToken {
+  type: 'word' | 'string' | 'symbol';
+  value: string;
+}
+
+function tokenizeFilter(expression: string): FilterToken[] {
+  const tokens: FilterToken[] = [];
+  let i = 0;
+  while (i < expression.length) {
+    const char = expression[i];
+    if (/\s/.test(char)) {
+      i += 1;
+    } else if (char === '"' || char === "'") {
+      let value = '';
+      i += 1;
+      while (i < expression.length && expression[i] !== char) {
+        value += expression[i] === '\\' ? expression[++i] : expression[i];
+        i += 1;
+      }
+      if (i >= expression.length) {
+        throw new Error(`Unterminated string in filter: ${expression}`);
+      }
+      i += 1;
+      tokens.push({ type: 'string', value });
+    } else if ('()[],'.includes(char)) {
+      tokens.push({ type: 'symbol', value: char });
+      i += 1;
+    } else if ('=!<>'.includes(char)) {
+      const operator = /^(!=|>=|<=|=|>|<)/.exec(expression.slice(i));
+      if (!operator) {
+        throw new Error(`Invalid operator in filter: ${expression}`);
+      }
+      tokens.push({ type: 'symbol', value: operator[1] });
+      i += operator[1].length;
+    } else {
+      const word = /^[^\s()[\],=!<>"']+/.exec(expression.slice(i))![0];
+      tokens.push({ type: 'word', value: word });
+      i += word.length;
+    }
+  }
+  return tokens;
+}
+
+function fieldValues(doc: Record<string, unknown>, attribute: string): unknown[] {
+  const value = doc[attribute];
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+function compareValues(actual: unknown, expected: string): number | null {
+  const numeric = Number(expected);
+  if (typeof actual === 'number' && expected.trim() !== '' && Number.isFinite(numeric)) {
+    return actual - numeric;
+  }
+  if (typeof actual === 'string' || typeof actual === 'number' || typeof actual === 'boolean') {
+    const text = String(actual);
+    return text === expected ? 0 : text < expected ? -1 : 1;
+  }
+  return null;
+}
+
+export function compileFilter(expression: string): FilterPredicate {
+  const tokens = tokenizeFilter(expression);
+  let position = 0;
+
+  const peekKeyword = (keyword: string, offset = 0) => {
+    const token = tokens[position + offset];
+    return token?.type === 'word' && token.value.toUpperCase() === keyword;
+  };
+  const expectSymbol = (symbol: string) => {
+    const token = tokens[position];
+    if (token?.type !== 'symbol' || token.value !== symbol) {
+      throw new Error(`Expected "${symbol}" in filter: ${expression}`);
+    }
+    position += 1;
+  };
+  const readValue = (): string => {
+    const token = tokens[position];
+    if (!token || token.type === 'symbol') {
+      throw new Error(`Expected value in filter: ${expression}`);
+    }
+    position += 1;
+    return token.value;
+  };
+
+  const parseCondition = (): FilterPredicate => {
+    const attribute = readValue();
+    if (peekKeyword('EXISTS')) {
+      position += 1;
+      return (doc) => doc[attribute] !== undefined;
+    }
+    if (peekKeyword('NOT') && peekKeyword('EXISTS', 1)) {
+      position += 2;
+      return (doc) => doc[attribute] === undefined;
+    }
+    const negatedIn = peekKeyword('NOT') && peekKeyword('IN', 1);
+    if (negatedIn || peekKeyword('IN')) {
+      position += negatedIn ? 2 : 1;
+      expectSymbol('[');
+      const values: string[] = [];
+      while (!(tokens[position]?.type === 'symbol' && tokens[position].value === ']')) {
+        values.push(readValue());
+        if (tokens[position]?.type === 'symbol' && tokens[position].value === ',') {
+          position += 1;
+        }
+      }
+      expectSymbol(']');
+      const matches: FilterPredicate = (doc) => fieldValues(doc, attribute).some((actual) => values.some((value) => compareValues(actual, value) === 0));
+      return negatedIn ? (doc) => !matches(doc) : matches;
+    }
+    const operator = tokens[position];
+    if (operator?.type === 'symbol' && ['=', '!=', '>', '>=', '<', '<='].includes(operator.value)) {
+      position += 1;
+      const value = readValue();
+      const test = (diff: number) => {
+        switch (operator.value) {
+          case '=':
+            return diff === 0;
+          case '>':
+            return diff > 0;
+          case '>=':
+            return diff >= 0;
+          case '<':
+            return diff < 0;
+          default:
+            return diff <= 0;
+        }
+      };
+      if (operator.value === '!=') {
+        return (doc) => !fieldValues(doc, attribute).some((actual) => compareValues(actual, value) === 0);
+      }
+      return (doc) => fieldValues(doc, attribute).some((actual) => {
+        const diff = compareValues(actual, value);
+        return diff !== null && test(diff);
+      });
+    }
+    const low = tokens[position] && tokens[position].type !== 'symbol' ? tokens[position].value : null;
+    if (low !== null && peekKeyword('TO', 1)) {
+      position += 2;
+      const high = readValue();
+      return (doc) => fieldValues(doc, attribute).some((actual) => {
+        const fromLow = compareValues(actual, low);
+        const fromHigh = compareValues(actual, high);
+        return fromLow !== null && fromHigh !== null && fromLow >= 0 && fromHigh <= 0;
+      });
+    }
+    throw new Error(`Unsupported filter condition near "${attribute}": ${expression}`);
+  };
+
+  const parseUnary = (): FilterPredicate => {
+    if (peekKeyword('NOT')) {
+      position += 1;
+      const inner = parseUnary();
+      return (doc) => !inner(doc);
+    }
+    if (tokens[position]?.type === 'symbol' && tokens[position].value === '(') {
+      position += 1;
+      const inner = parseOr();
+      expectSymbol(')');
+      return inner;
+    }
+    return parseCondition();
+  };
+
+  const parseAnd = (): FilterPredicate => {
+    const parts = [parseUnary()];
+    while (peekKeyword('AND')) {
+      position += 1;
+      parts.push(parseUnary());
+    }
+    return parts.length === 1 ? parts[0] : (doc) => parts.every((part) => part(doc));
+  };
+
+  const parseOr = (): FilterPredicate => {
+    const parts = [parseAnd()];
+    while (peekKeyword('OR')) {
+      position += 1;
+      parts.push(parseAnd());
+    }
+    return parts.length === 1 ? parts[0] : (doc) => parts.some((part) => part(doc));
+  };
+
+  const predicate = parseOr();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position].value}" in filter: ${expression}`);
+  }
+  return predicate;
+}
@@ -0,0 +1,196 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import process from 'node:process';
+
+export const HIGHLIGHT_PRE_TAG = '\u0002';
+export const HIGHLIGHT_POST_TAG = '\u0003';
+export const DEFAULT_CONTEXT_LINES = Number(process.env.RAG_SNIPPET_CONTEXT ?? '2');
+const SNIPPET_LINES = Number(process.env.RAG_SNIPPET_LINES ?? '8');
+const SNIPPET_MAX_WINDOWS = Math.max(1, Number(process.env.RAG_SNIPPET_MAX_WINDOWS ?? '4'));
+
+export interface Highlight {
+  line: number;
+  start: number;
+  end: number;
+}
+
+export interface Snippet {
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+export interface FormattedHit {
+  snippet: Snippet;
+  highlights: Highlight[];
+  stale: boolean;
+}
+
+export interface FormatOptions {
+  query?: string;
+  queryVector?: number[];
+  contextLines?: number;
+  rootFor?: (hit: Record<string, unknown>) => string | null;
+}
+
+export function highlightParams(): Record<string, unknown> {
+  return {
+    attributesToHighlight: ['content'],
+    highlightPreTag: HIGHLIGHT_PRE_TAG,
+    highlightPostTag: HIGHLIGHT_POST_TAG
+  };
+}
+
+function splitLines(text: string): string[] {
+  return text.split(/\r?\n/);
+}
+
+function formattedHighlights(formatted: string, startLine: number): Highlight[] {
+  const highlights: Highlight[] = [];
+  splitLines(formatted).forEach((line, offset) => {
+    let column = 0;
+    let open: number | null = null;
+    for (const char of line) {
+      if (char === HIGHLIGHT_PRE_TAG) {
+        open = column;
+      } else if (char === HIGHLIGHT_POST_TAG) {
+        if (open !== null && column > open) {
+          highlights.push({ line: startLine + offset, start: open, end: column });
+        }
+        open = null;
+      } else {
+        column += char.length;
+      }
+    }
+  });
+  return highlights;
+}
+
+function termHighlights(lines: string[], startLine: number, query: string): Highlight[] {
+  const terms = [...new Set((query.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []).filter((term) => term.length > 1))];
+  if (terms.length === 0) {
+    return [];
+  }
+  const pattern = new RegExp(terms.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|'), 'giu');
+  const highlights: Highlight[] = [];
+  lines.forEach((line, offset) => {
+    for (const match of line.matchAll(pattern)) {
+      highlights.push({ line: startLine + offset, start: match.index!, end: match.index! + match[0].length });
+    }
+  });
+  return highlights;
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i += 1) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function countInWindow(highlights: Highlight[], first: number, size: number): number {
+  return highlights.filter((highlight) => highlight.line >= first && highlight.line < first + size).length;
+}
+
+// Vector mode embeds only a few windows: those with the most query-term matches,
+// or evenly spaced ones when the chunk has none.
+function candidateWindows(windowStarts: number[], startLine: number, size: number, highlights: Highlight[]): number[] {
+  if (windowStarts.length <= SNIPPET_MAX_WINDOWS) {
+    return windowStarts;
+  }
+  const counts = windowStarts.map((offset) => countInWindow(highlights, startLine + offset, size));
+  if (counts.some((count) => count > 0)) {
+    return windowStarts
+      .map((offset, index) => ({ offset, count: counts[index] }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, SNIPPET_MAX_WINDOWS)
+      .map((window) => window.offset);
+  }
+  const step = (windowStarts.length - 1) / Math.max(1, SNIPPET_MAX_WINDOWS - 1);
+  return [...new Set(Array.from({ length: SNIPPET_MAX_WINDOWS }, (_, index) => windowStarts[Math.round(index * step)]))];
+}
+
+async function bestWindow(
+  lines: string[],
+  startLine: number,
+  highlights: Highlight[],
+  queryVector?: number[]
+): Promise<{ start: number; end: number }> {
+  const size = Math.max(1, Math.min(SNIPPET_LINES, lines.length));
+  const windowStarts: number[] = [];
+  for (let offset = 0; offset + size <= lines.length; offset += Math.max(1, Math.floor(size / 2))) {
+    windowStarts.push(offset);
+  }
+  if (windowStarts.length === 0 || windowStarts[windowStarts.length - 1] + size < lines.length) {
+    windowStarts.push(Math.max(0, lines.length - size));
+  }
+  let best = windowStarts[0];
+  if (queryVector && windowStarts.length > 1) {
+    const { embed } = await import('./embed.js');
+    const candidates = candidateWindows(windowStarts, startLine, size, highlights);
+    const vectors = await embed(candidates.map((offset) => lines.slice(offset, offset + size).join('\n')));
+    let bestScore = -Infinity;
+    vectors.forEach((vector, index) => {
+      const score = cosine(vector, queryVector);
+      if (score > bestScore) {
+        best = candidates[index];
+        bestScore = score;
+      }
+    });
+  } else if (highlights.length) {
+    let bestCount = -1;
+    for (const offset of windowStarts) {
+      const count = countInWindow(highlights, startLine + offset, size);
+      if (count > bestCount) {
+        best = offset;
+        bestCount = count;
+      }
+    }
+  }
+  return { start: startLine + best, end: startLine + best + size - 1 };
+}
+
+export async function formatHits(hits: Array<Record<string, unknown>>, options: FormatOptions = {}): Promise<FormattedHit[]> {
+  const contextLines = Math.max(0, options.contextLines ?? DEFAULT_CONTEXT_LINES);
+  const files = new Map<string, Promise<string[] | null>>();
+  const readLines = (full: string) => {
+    let promise = files.get(full);
+    if (!promise) {
+      promise = fs.readFile(full, 'utf8').then(splitLines, () => null);
+      files.set(full, promise);
+    }
+    return promise;
+  };
+
+  return Promise.all(hits.map(async (hit) => {
+    const content = typeof hit.content === 'string' ? hit.content : '';
+    const chunkLines = splitLines(content);
+    const startLine = typeof hit.startLine === 'number' ? hit.startLine : 1;
+    const formatted = (hit._formatted as { content?: unknown } | undefined)?.content;
+    const keywordMatched = typeof formatted === 'string' && formatted.includes(HIGHLIGHT_PRE_TAG);
+    let highlights = keywordMatched
+      ? formattedHighlights(formatted, startLine)
+      : termHighlights(chunkLines, startLine, options.query ?? '');
+    const window = await bestWindow(chunkLines, startLine, highlights, keywordMatched ? undefined : options.queryVector);
+
+    const root = options.rootFor?.(hit) ?? null;
+    const fileLines = root && typeof hit.filePath === 'string' ? await readLines(path.join(root, hit.filePath)) : null;
+    const stale = root !== null && (!fileLines || fileLines.slice(startLine - 1, startLine - 1 + chunkLines.length).join('\n') !== content);
+    const source = fileLines && !stale ? fileLines : chunkLines;
+    const sourceStart = fileLines && !stale ? 1 : startLine;
+
+    const first = Math.max(sourceStart, window.start - contextLines);
+    const last = Math.min(sourceStart + source.length - 1, window.end + contextLines);
+    highlights = highlights.filter((highlight) => highlight.line >= first && highlight.line <= last);
+    return {
+      snippet: { startLine: first, endLine: last, text: source.slice(first - sourceStart, last - sourceStart + 1).join('\n') },
+      highlights,
+      stale
+    };
+  }));
+}
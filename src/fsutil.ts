@@ -1,28 +1,45 @@
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import crypto from 'node:crypto';
+import { setTimeout as delay } from 'node:timers/promises';
 import ignore from 'ignore';
 
 export const MAX_FILE_BYTES = Number(process.env.RAG_MAX_FILE_BYTES ?? 2_000_000);
-const DEFAULT_IGNORES = ['node_modules', '.git', '.next', 'dist', 'build', '.meili-data'];
+const DEFAULT_IGNORES = ['node_modules', '.git', '.next', 'dist', 'build', '.meili-data', '.rag_state.json', '.rag_state.json.lock', '.rag_cache', '.rag_store'];
+
+export const IGNORE_FILES = ['.ragignore', '.gitignore'];
+
+const LOCK_RETRY_MS = 25;
+const LOCK_STALE_MS = 60_000;
+const LOCK_REFRESH_MS = LOCK_STALE_MS / 4;
+const LOCK_TIMEOUT_MS = Number(process.env.RAG_LOCAL_LOCK_TIMEOUT_MS ?? '120000');
 
 export function sha256(input: string): string {
   return crypto.createHash('sha256').update(input).digest('hex');
 }
 
-export async function loadIgnore(root: string): Promise<ignore.Ignore> {
-  const ig = ignore().add(DEFAULT_IGNORES);
-  for (const name of ['.ragignore', '.gitignore']) {
-    try {
-      const raw = await fs.readFile(path.join(root, name), 'utf8');
+export function ignoreFromSources(sources: Array<string | null>, extra: string[] = []): ignore.Ignore {
+  const ig = ignore().add(DEFAULT_IGNORES).add(extra);
+  for (const raw of sources) {
+    if (raw) {
       ig.add(raw.split(/\r?\n/));
+    }
+  }
+  return ig;
+}
+
+export async function loadIgnore(root: string, extra: string[] = []): Promise<ignore.Ignore> {
+  const sources: string[] = [];
+  for (const name of IGNORE_FILES) {
+    try {
+      sources.push(await fs.readFile(path.join(root, name), 'utf8'));
     } catch (error) {
       if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
         throw error;
       }
     }
   }
-  return ig;
+  return ignoreFromSources(sources, extra);
 }
 
 export async function* walk(root: string, ig: ignore.Ignore): AsyncGenerator<{ rel: string; full: string }, void, void> {
@@ -54,23 +71,59 @@ const CODE_EXTENSIONS = new Set([
   'cs', 'rb', 'php', 'sql', 'sh', 'ps1', 'bat', 'swift'
 ]);
 
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  ts: 'typescript', tsx: 'typescript',
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript',
+  json: 'json', md: 'markdown', mdx: 'markdown', yml: 'yaml', yaml: 'yaml', toml: 'toml', ini: 'ini',
+  go: 'go', rs: 'rust', py: 'python', java: 'java', kt: 'kotlin',
+  c: 'c', h: 'c', cc: 'cpp', cpp: 'cpp', cxx: 'cpp', hpp: 'cpp',
+  cs: 'csharp', rb: 'ruby', php: 'php', sql: 'sql', sh: 'shell', ps1: 'powershell', bat: 'batch', swift: 'swift'
+};
+
+export function languageFor(extOrLanguage: string): string {
+  const normalized = extOrLanguage.toLowerCase().replace(/^\./, '');
+  return LANGUAGE_BY_EXTENSION[normalized] ?? normalized;
+}
+
+export function pathMetadata(rel: string): { extension: string; suffixes: string[]; language: string; directory: string; pathSegments: string[] } {
+  const parts = rel.split('/');
+  const name = parts.pop() ?? '';
+  const extension = name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+  // Every dotted ending of the name, e.g. "test.ts" and "ts" for a.test.ts.
+  const dots = name.toLowerCase().split('.');
+  const suffixes = dots.slice(1).map((_, index) => dots.slice(index + 1).join('.')).filter((suffix) => suffix && !suffix.startsWith('.'));
+  const pathSegments = parts.map((_, index) => parts.slice(0, index + 1).join('/'));
+  return {
+    extension,
+    suffixes,
+    language: extension ? languageFor(extension) : 'unknown',
+    directory: parts.length ? parts.join('/') : '.',
+    pathSegments
+  };
+}
+
 export function shouldIndex(rel: string): boolean {
   const ext = rel.split('.').pop()?.toLowerCase();
   return !!ext && CODE_EXTENSIONS.has(ext);
 }
 
-export async function withinSizeLimit(full: string): Promise<boolean> {
+export async function fileStats(full: string): Promise<{ size: number; mtimeMs: number } | null> {
   try {
     const stats = await fs.stat(full);
-    return stats.size <= MAX_FILE_BYTES;
+    return { size: stats.size, mtimeMs: stats.mtimeMs };
   } catch (error) {
     if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-      return false;
+      return null;
     }
     throw error;
   }
 }
 
+export async function withinSizeLimit(full: string): Promise<boolean> {
+  const stats = await fileStats(full);
+  return !!stats && stats.size <= MAX_FILE_BYTES;
+}
+
 export async function readFileUtf8(full: string): Promise<string> {
   return fs.readFile(full, 'utf8');
 }
@@ -96,3 +149,75 @@ export function chunkByLines(text: string, maxLines = 150, overlap = 30): Array<
   }
   return chunks;
 }
+
+function processAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+// A lock belongs to the process that wrote it for as long as that process is
+// alive. Only a lock without a readable owner falls back to its age, which the
+// holder keeps fresh while it runs.
+async function isStaleLock(file: string, owner: string): Promise<boolean> {
+  let pid: unknown;
+  try {
+    ({ pid } = JSON.parse(owner) as { pid?: unknown });
+  } catch {
+    pid = undefined;
+  }
+  if (typeof pid === 'number' && Number.isInteger(pid) && pid > 0) {
+    return !processAlive(pid);
+  }
+  const held = await fileStats(file);
+  return !!held && Date.now() - held.mtimeMs > LOCK_STALE_MS;
+}
+
+async function readLock(file: string): Promise<string | null> {
+  return fs.readFile(file, 'utf8').catch(() => null);
+}
+
+// A lock file created with O_EXCL guards state shared between processes, e.g. a
+// serve watcher and an MCP server writing the same index or manifest.
+export async function withFileLock<T>(file: string, task: () => Promise<T>): Promise<T> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const owner = JSON.stringify({ pid: process.pid, token: crypto.randomUUID() });
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      await fs.writeFile(file, owner, { flag: 'wx' });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+    const held = await readLock(file);
+    if (held !== null && await isStaleLock(file, held)) {
+      if (await readLock(file) === held) {
+        await fs.rm(file, { force: true });
+      }
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock ${file}`);
+    }
+    await delay(LOCK_RETRY_MS);
+  }
+  const refresh = setInterval(() => {
+    const now = new Date();
+    fs.utimes(file, now, now).catch(() => {});
+  }, LOCK_REFRESH_MS);
+  refresh.unref();
+  try {
+    return await task();
+  } finally {
+    clearInterval(refresh);
+    if (await readLock(file) === owner) {
+      await fs.rm(file, { force: true });
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+
+const execFileAsync = promisify(execFile);
+const GIT_MAX_BUFFER = 256 * 1024 * 1024;
+
+export interface GitChange {
+  status: 'added' | 'modified' | 'deleted';
+  path: string;
+}
+
+// Revisions and object names come from callers (and from HTTP requests), so
+// every command that takes one puts it after --end-of-options.
+async function git(root: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, { cwd: root, maxBuffer: GIT_MAX_BUFFER });
+  return stdout;
+}
+
+export async function gitHead(root: string): Promise<string | null> {
+  try {
+    return (await git(root, ['rev-parse', 'HEAD'])).trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+export async function gitDir(root: string): Promise<string | null> {
+  try {
+    return (await git(root, ['rev-parse', '--absolute-git-dir'])).trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+export async function gitChangedFiles(root: string, from: string, to: string): Promise<GitChange[]> {
+  const output = await git(root, ['diff', '--name-status', '--no-renames', '--relative', '-z', '--end-of-options', from, to]);
+  const tokens = output.split('\0').filter(Boolean);
+  const changes: GitChange[] = [];
+  for (let i = 0; i + 1 < tokens.length; i += 2) {
+    const code = tokens[i].charAt(0);
+    const status = code === 'D' ? 'deleted' : code === 'A' ? 'added' : 'modified';
+    changes.push({ status, path: tokens[i + 1] });
+  }
+  return changes;
+}
+
+export interface GitTreeEntry {
+  path: string;
+  object: string;
+  size: number;
+}
+
+export async function gitResolveCommit(root: string, rev: string): Promise<string> {
+  try {
+    return (await git(root, ['rev-parse', '--verify', '--quiet', '--end-of-options', `${rev}^{commit}`])).trim();
+  } catch {
+    throw new Error(`Unknown git revision: ${rev}`);
+  }
+}
+
+export async function gitListFiles(root: string, commit: string): Promise<GitTreeEntry[]> {
+  const output = await git(root, ['ls-tree', '-r', '-z', '--long', '--end-of-options', commit]);
+  const entries: GitTreeEntry[] = [];
+  for (const record of output.split('\0')) {
+    const tab = record.indexOf('\t');
+    if (tab === -1) {
+      continue;
+    }
+    const [, type, object, size] = record.slice(0, tab).split(/\s+/);
+    if (type !== 'blob') {
+      continue;
+    }
+    entries.push({ path: record.slice(tab + 1), object, size: Number(size) });
+  }
+  return entries;
+}
+
+export async function gitReadBlob(root: string, object: string): Promise<string> {
+  return git(root, ['cat-file', 'blob', '--end-of-options', object]);
+}
+
+export async function gitShowFile(root: string, commit: string, rel: string): Promise<string | null> {
+  try {
+    return await git(root, ['show', '--end-of-options', `${commit}:./${rel}`]);
+  } catch {
+    return null;
+  }
+}
@@ -2,25 +2,79 @@ import path from 'node:path';
 import process from 'node:process';
 import chokidar, { type FSWatcher } from 'chokidar';
 
-import { embed, getEmbeddingDimension } from './embed.js';
+import { embedWithCache, embeddingModelId, getEmbeddingDimension } from './embed.js';
 import {
   sha256,
   loadIgnore,
+  ignoreFromSources,
+  IGNORE_FILES,
   walk,
   shouldIndex,
-  withinSizeLimit,
+  fileStats,
   readFileUtf8,
-  chunkByLines
+  pathMetadata,
+  MAX_FILE_BYTES
 } from './fsutil.js';
-import { addDocuments, deleteByFilePath, ensureIndex, EMBEDDER_NAME } from './meili.js';
+import { chunkFile, chunkerId } from './chunker.js';
+import { defaultRepoConfig, repoIgnorePatterns, type RepoConfig } from './config.js';
+import { createDebouncer } from './debounce.js';
+import { gitChangedFiles, gitDir, gitHead, gitListFiles, gitReadBlob, gitResolveCommit, gitShowFile } from './git.js';
+import { createTaskTracker, type TaskReport, type TaskTracker } from './tasks.js';
+import {
+  emptyManifest,
+  invalidateEntries,
+  loadManifest,
+  saveManifest,
+  updateManifest,
+  type Manifest,
+  type ManifestEntry
+} from './manifest.js';
+import {
+  createProgressBar,
+  createProgressBus,
+  createProgressTracker,
+  type ProgressKind,
+  type ProgressTracker
+} from './progress.js';
+import {
+  addDocuments,
+  deleteByFilePath,
+  deleteByFilePaths,
+  deleteIndex,
+  ensureIndex,
+  getEmbedderDimensions,
+  getIndexIdentity,
+  indexStats,
+  revisionIndexUid,
+  setIndexIdentity,
+  swapIndexes,
+  EMBEDDER_NAME,
+  type IndexIdentity
+} from './store.js';
 
-const ROOT = path.resolve(process.env.REPO_ROOT ?? '.');
-const CHUNK_LINES = Number(process.env.RAG_CHUNK_LINES ?? '150');
-const CHUNK_OVERLAP = Number(process.env.RAG_CHUNK_OVERLAP ?? '30');
+const MANIFEST_CHECKPOINT_FILES = 50;
+const DOCUMENT_VERSION = 3;
+const WATCH_DEBOUNCE_MS = Number(process.env.RAG_WATCH_DEBOUNCE_MS ?? '500');
+const WATCH_MAX_WAIT_MS = Number(process.env.RAG_WATCH_MAX_WAIT_MS ?? '5000');
 
 export interface IndexSummary {
   indexedFiles: number;
   indexedChunks: number;
+  skippedFiles: number;
+  removedFiles: number;
+  failedTasks?: number;
+}
+
+export interface IndexOptions {
+  force?: boolean;
+  migrate?: boolean;
+  wait?: boolean;
+  repo?: RepoConfig;
+  rev?: string;
+}
+
+export interface IndexProgress {
+  onFile?: (file: string, processed: number) => void;
 }
 
 type Logger = (payload: Record<string, unknown>) => void;
@@ -29,94 +83,485 @@ const defaultLogger: Logger = (payload) => {
   console.log(JSON.stringify(payload));
 };
 
+const manifestPromises = new Map<string, Promise<Manifest>>();
+
+export const indexEvents = createProgressBus();
+
+function trackRun(repo: RepoConfig, kind: ProgressKind, rev?: string): ProgressTracker {
+  return createProgressTracker(indexEvents, { repo: repo.name, index: rev ? revisionIndexUid(rev, repo.indexUid) : repo.indexUid, kind, rev });
+}
+
+async function tracked<T>(tracker: ProgressTracker, run: () => Promise<T>): Promise<T> {
+  try {
+    const result = await run();
+    tracker.complete();
+    return result;
+  } catch (error) {
+    tracker.fail(error);
+    throw error;
+  }
+}
+
+function buildIndexUid(repo: RepoConfig): string {
+  return `${repo.indexUid}__build`;
+}
+
+function manifestSettings(repo: RepoConfig) {
+  return {
+    indexUid: repo.indexUid,
+    documentVersion: DOCUMENT_VERSION,
+    embedder: EMBEDDER_NAME,
+    model: embeddingModelId(),
+    chunker: chunkerId(),
+    chunkLines: repo.chunkLines,
+    chunkOverlap: repo.chunkOverlap
+  };
+}
+
+async function getManifest(repo: RepoConfig): Promise<Manifest> {
+  let manifestPromise = manifestPromises.get(repo.stateFile);
+  if (!manifestPromise) {
+    manifestPromise = loadManifest(repo.stateFile, manifestSettings(repo));
+    manifestPromises.set(repo.stateFile, manifestPromise);
+  }
+  return manifestPromise;
+}
+
+async function verifiedManifest(logger: Logger, repo: RepoConfig): Promise<Manifest> {
+  return verifyManifest(logger, repo, await getManifest(repo));
+}
+
+async function verifyManifest(logger: Logger, repo: RepoConfig, manifest: Manifest): Promise<Manifest> {
+  if (!Object.values(manifest.files).some((entry) => entry.chunks > 0)) {
+    return manifest;
+  }
+  const stats = await indexStats(repo.indexUid);
+  if (stats && (stats.numberOfDocuments > 0 || stats.isIndexing)) {
+    return manifest;
+  }
+  logger({ event: 'index', phase: 'manifest-reset', repo: repo.name, index: repo.indexUid, files: Object.keys(manifest.files).length });
+  manifest.files = {};
+  manifest.commit = null;
+  return manifest;
+}
+
 function buildDocumentId(filePath: string, start: number, end: number, fileHash: string): string {
   return sha256(`${filePath}:${start}:${end}:${fileHash}`);
 }
 
-async function documentsForFile(rel: string, full: string) {
-  const content = await readFileUtf8(full);
-  const chunks = chunkByLines(content, CHUNK_LINES, CHUNK_OVERLAP);
-  const vectors = (await embed(chunks.map((chunk) => chunk.text))) as number[][];
-  const fileHash = sha256(content);
+async function documentsForFile(repo: RepoConfig, rel: string, content: string, fileHash: string, commit: string | null) {
+  const chunks = chunkFile(rel, content, repo.chunkLines, repo.chunkOverlap);
+  const vectors = await embedWithCache(chunks.map((chunk) => chunk.text));
+  const metadata = pathMetadata(rel);
   return chunks.map((chunk, index) => ({
     id: buildDocumentId(rel, chunk.start, chunk.end, fileHash),
     filePath: rel,
+    ...metadata,
     startLine: chunk.start,
     endLine: chunk.end,
     content: chunk.text,
+    symbolName: chunk.symbolName,
+    symbolKind: chunk.symbolKind,
+    symbolNames: chunk.symbolNames,
+    commit: commit ?? undefined,
     _vectors: { [EMBEDDER_NAME]: vectors[index] }
   }));
 }
 
-async function reindexFile(rel: string, full: string, logger: Logger): Promise<number> {
-  if (!(await withinSizeLimit(full))) {
-    await deleteByFilePath(rel);
-    return 0;
+type IndexDocument = Awaited<ReturnType<typeof documentsForFile>>[number];
+
+interface IndexTarget {
+  repo: RepoConfig;
+  uid: string;
+  manifest: Manifest;
+  tasks: TaskTracker;
+  commit: string | null;
+}
+
+type FilePlan =
+  | { action: 'skip' }
+  | { action: 'remove' }
+  | { action: 'write'; docs: IndexDocument[]; entry: ManifestEntry };
+
+async function removeFile(rel: string, target: IndexTarget): Promise<void> {
+  target.tasks.track(await deleteByFilePath(rel, target.uid), { action: 'delete', file: rel });
+  delete target.manifest.files[rel];
+}
+
+async function planFile(rel: string, full: string, target: IndexTarget, force = false): Promise<FilePlan> {
+  const { manifest } = target;
+  const stats = await fileStats(full);
+  if (!stats || stats.size > MAX_FILE_BYTES) {
+    return { action: 'remove' };
   }
-  await deleteByFilePath(rel);
-  let docs: Awaited<ReturnType<typeof documentsForFile>>;
-  try {
-    docs = await documentsForFile(rel, full);
-  } catch (error) {
-    logger({ event: 'error', file: rel, message: 'Failed to read file', detail: error instanceof Error ? error.message : error });
-    return 0;
+  const previous = manifest.files[rel];
+  if (!force && previous && previous.mtimeMs === stats.mtimeMs && previous.size === stats.size) {
+    return { action: 'skip' };
+  }
+  const content = await readFileUtf8(full);
+  const fileHash = sha256(content);
+  if (!force && previous && previous.hash === fileHash) {
+    manifest.files[rel] = { ...previous, mtimeMs: stats.mtimeMs, size: stats.size };
+    return { action: 'skip' };
+  }
+  const docs = await documentsForFile(target.repo, rel, content, fileHash, target.commit);
+  return { action: 'write', docs, entry: { hash: fileHash, mtimeMs: stats.mtimeMs, size: stats.size, chunks: docs.length } };
+}
+
+async function syncFile(rel: string, full: string, target: IndexTarget, force = false): Promise<number | null> {
+  const plan = await planFile(rel, full, target, force);
+  if (plan.action === 'skip') {
+    return null;
   }
-  if (docs.length === 0) {
+  if (plan.action === 'remove') {
+    await removeFile(rel, target);
     return 0;
   }
-  await addDocuments(docs);
-  return docs.length;
+  target.tasks.track(await deleteByFilePath(rel, target.uid), { action: 'delete', file: rel });
+  target.tasks.track(await addDocuments(plan.docs, undefined, target.uid), { action: 'add', file: rel });
+  target.manifest.files[rel] = plan.entry;
+  return plan.docs.length;
 }
 
-async function rebuildRepository(logger: Logger): Promise<IndexSummary> {
-  const dimension = await getEmbeddingDimension();
-  await ensureIndex(dimension);
-  const ignoreMatcher = await loadIgnore(ROOT);
-  let indexedFiles = 0;
-  let indexedChunks = 0;
-  for await (const file of walk(ROOT, ignoreMatcher)) {
-    if (!shouldIndex(file.rel)) {
-      continue;
+async function syncBatch(files: Iterable<string>, target: IndexTarget, logger: Logger): Promise<Array<{ file: string; chunks: number | null }>> {
+  const results: Array<{ file: string; chunks: number | null }> = [];
+  const removals: string[] = [];
+  const writes: Array<{ file: string; docs: IndexDocument[]; entry: ManifestEntry }> = [];
+  for (const file of files) {
+    try {
+      const plan = await planFile(file, path.join(target.repo.root, file), target);
+      if (plan.action === 'skip') {
+        results.push({ file, chunks: null });
+      } else if (plan.action === 'remove') {
+        removals.push(file);
+      } else {
+        writes.push({ file, docs: plan.docs, entry: plan.entry });
+      }
+    } catch (error) {
+      logger({ event: 'error', file, message: 'Failed to index file', detail: error instanceof Error ? error.message : error });
     }
-    if (!(await withinSizeLimit(file.full))) {
-      await deleteByFilePath(file.rel);
-      continue;
+  }
+  const touched = [...removals, ...writes.map((write) => write.file)];
+  if (touched.length === 0) {
+    return results;
+  }
+  target.tasks.track(await deleteByFilePaths(touched, target.uid), { action: 'delete', files: touched });
+  const docs = writes.flatMap((write) => write.docs);
+  target.tasks.track(await addDocuments(docs, undefined, target.uid), { action: 'add', files: writes.map((write) => write.file) });
+  for (const file of removals) {
+    delete target.manifest.files[file];
+    results.push({ file, chunks: 0 });
+  }
+  for (const write of writes) {
+    target.manifest.files[write.file] = write.entry;
+    results.push({ file: write.file, chunks: write.docs.length });
+  }
+  return results;
+}
+
+async function settleManifest(tasks: TaskTracker, repo: RepoConfig, manifest: Manifest, logger: Logger): Promise<TaskReport> {
+  const report = await tasks.settle();
+  if (invalidateEntries(manifest, report.failedFiles) > 0) {
+    logger({ event: 'index', phase: 'invalidate', repo: repo.name, files: report.failedFiles });
+    await saveManifest(repo.stateFile, manifest);
+  }
+  return report;
+}
+
+function settleInBackground(settle: () => Promise<unknown>, logger: Logger): void {
+  settle().catch((error) => {
+    logger({ event: 'error', message: 'Failed to track Meilisearch tasks', detail: error instanceof Error ? error.message : error });
+  });
+}
+
+async function indexTree(
+  logger: Logger,
+  target: IndexTarget,
+  force: boolean,
+  checkpoint: boolean,
+  tracker: ProgressTracker,
+  progress: IndexProgress = {}
+): Promise<IndexSummary> {
+  const { repo } = target;
+  const ignoreMatcher = await loadIgnore(repo.root, repoIgnorePatterns(repo));
+  const files: Array<{ rel: string; full: string }> = [];
+  for await (const file of walk(repo.root, ignoreMatcher)) {
+    if (shouldIndex(file.rel)) {
+      files.push(file);
     }
+  }
+  tracker.discovered(files.length);
+  const seen = new Set<string>();
+  let indexedFiles = 0;
+  let indexedChunks = 0;
+  let skippedFiles = 0;
+  let removedFiles = 0;
+  for (const file of files) {
+    seen.add(file.rel);
+    progress.onFile?.(file.rel, seen.size);
+    tracker.file(file.rel);
     try {
-      const docs = await documentsForFile(file.rel, file.full);
-      await deleteByFilePath(file.rel);
-      if (docs.length) {
-        await addDocuments(docs);
+      const count = await syncFile(file.rel, file.full, target, force);
+      tracker.processed(file.rel, count === null ? 'skipped' : 'indexed', count ?? 0);
+      if (count === null) {
+        skippedFiles += 1;
+      } else if (count > 0) {
         indexedFiles += 1;
-        indexedChunks += docs.length;
+        indexedChunks += count;
+        if (checkpoint && indexedFiles % MANIFEST_CHECKPOINT_FILES === 0) {
+          await saveManifest(repo.stateFile, target.manifest);
+        }
       }
     } catch (error) {
+      tracker.processed(file.rel, 'failed');
       logger({ event: 'error', file: file.rel, message: 'Failed to index file', detail: error instanceof Error ? error.message : error });
     }
   }
-  return { indexedFiles, indexedChunks };
+  for (const rel of Object.keys(target.manifest.files)) {
+    if (seen.has(rel)) {
+      continue;
+    }
+    try {
+      await removeFile(rel, target);
+      tracker.removed();
+      removedFiles += 1;
+    } catch (error) {
+      logger({ event: 'error', file: rel, message: 'Failed to remove file', detail: error instanceof Error ? error.message : error });
+    }
+  }
+  target.manifest.commit = target.commit;
+  return { indexedFiles, indexedChunks, skippedFiles, removedFiles };
 }
 
-export async function indexOnce(logger: Logger = defaultLogger): Promise<IndexSummary> {
-  const summary = await rebuildRepository(logger);
+async function findIdentityMismatch(uid: string, current: IndexIdentity): Promise<IndexIdentity | null> {
+  const stored = await getIndexIdentity(uid);
+  if (stored) {
+    return stored.model !== current.model || stored.dimensions !== current.dimensions ? stored : null;
+  }
+  const dimensions = await getEmbedderDimensions(uid);
+  if (dimensions !== null && dimensions !== current.dimensions) {
+    return { model: 'unknown', dimensions };
+  }
+  return null;
+}
+
+async function currentIdentity(): Promise<IndexIdentity> {
+  return { model: embeddingModelId(), dimensions: await getEmbeddingDimension() };
+}
+
+async function rebuildIntoShadow(
+  logger: Logger,
+  repo: RepoConfig,
+  identity: IndexIdentity,
+  tracker: ProgressTracker,
+  progress: IndexProgress = {}
+): Promise<IndexSummary> {
+  const buildUid = buildIndexUid(repo);
+  await deleteIndex(buildUid);
+  await ensureIndex(identity.dimensions, buildUid);
+  const target: IndexTarget = {
+    repo,
+    uid: buildUid,
+    manifest: emptyManifest(manifestSettings(repo)),
+    tasks: createTaskTracker(logger),
+    commit: await gitHead(repo.root)
+  };
+  const summary = await indexTree(logger, target, true, false, tracker, progress);
+  tracker.phase('settle');
+  const report = await target.tasks.settle();
+  if (report.failed > 0) {
+    throw new Error(`${report.failed} Meilisearch task(s) failed while building ${buildUid}; keeping the live index`);
+  }
+  const swap = createTaskTracker(logger);
+  swap.track(await swapIndexes(repo.indexUid, buildUid), { action: 'swap' });
+  if ((await swap.settle()).failed > 0) {
+    throw new Error(`Failed to swap ${buildUid} into ${repo.indexUid}; keeping the live index`);
+  }
+  swap.track(await setIndexIdentity(identity, repo.indexUid), { action: 'identity' });
+  if ((await swap.settle()).failed > 0) {
+    throw new Error(`Failed to record the embedder identity of ${repo.indexUid}`);
+  }
+  await deleteIndex(buildUid);
+  manifestPromises.set(repo.stateFile, Promise.resolve(target.manifest));
+  await saveManifest(repo.stateFile, target.manifest);
+  return { ...summary, failedTasks: 0 };
+}
+
+async function rebuildRepository(logger: Logger, repo: RepoConfig, options: IndexOptions, kind: ProgressKind): Promise<IndexSummary> {
+  const tracker = trackRun(repo, kind);
+  return tracked(tracker, () => syncRepository(logger, repo, options, tracker));
+}
+
+async function syncRepository(logger: Logger, repo: RepoConfig, options: IndexOptions, tracker: ProgressTracker): Promise<IndexSummary> {
+  const identity = await currentIdentity();
+  const previous = await findIdentityMismatch(repo.indexUid, identity);
+  if (previous) {
+    if (!options.migrate) {
+      throw new Error(
+        `Index "${repo.indexUid}" was built with ${previous.model} (${previous.dimensions} dims), `
+        + `but the current embedder is ${identity.model} (${identity.dimensions} dims). `
+        + 'Re-run with --migrate to rebuild it in a shadow index and swap it in.'
+      );
+    }
+    logger({ event: 'index', phase: 'migrate', repo: repo.name, from: previous, to: identity, buildIndex: buildIndexUid(repo) });
+    return rebuildIntoShadow(logger, repo, identity, tracker);
+  }
+  await ensureIndex(identity.dimensions, repo.indexUid);
+  const target: IndexTarget = {
+    repo,
+    uid: repo.indexUid,
+    manifest: await verifiedManifest(logger, repo),
+    tasks: createTaskTracker(logger),
+    commit: await gitHead(repo.root)
+  };
+  target.tasks.track(await setIndexIdentity(identity, repo.indexUid), { action: 'identity' });
+  const summary = await indexTree(logger, target, !!options.force, true, tracker);
+  await saveManifest(repo.stateFile, target.manifest);
+  if (!options.wait) {
+    settleInBackground(() => settleManifest(target.tasks, repo, target.manifest, logger), logger);
+    return summary;
+  }
+  tracker.phase('settle');
+  const report = await settleManifest(target.tasks, repo, target.manifest, logger);
+  return { ...summary, failedTasks: report.failed };
+}
+
+export async function indexOnce(logger: Logger = defaultLogger, options: IndexOptions = {}): Promise<IndexSummary> {
+  const summary = await rebuildRepository(logger, options.repo ?? defaultRepoConfig(), options, 'full');
   logger({ event: 'index', phase: 'complete', ...summary });
   return summary;
 }
 
-function relativeFromAbsolute(full: string): string {
-  return path.relative(ROOT, full).split(path.sep).join('/');
+export async function indexRevision(options: IndexOptions & { rev: string }, logger: Logger = defaultLogger): Promise<IndexSummary> {
+  const repo = options.repo ?? defaultRepoConfig();
+  const commit = await gitResolveCommit(repo.root, options.rev);
+  const uid = revisionIndexUid(options.rev, repo.indexUid);
+  const identity = await currentIdentity();
+  logger({ event: 'index', phase: 'revision', rev: options.rev, commit, index: uid });
+  const tracker = trackRun(repo, 'revision', options.rev);
+  const summary = await tracked(tracker, () => indexRevisionFiles(logger, repo, { ...options, commit, uid, identity }, tracker));
+  logger({ event: 'index', phase: 'complete', rev: options.rev, commit, index: uid, ...summary });
+  return summary;
+}
+
+async function indexRevisionFiles(
+  logger: Logger,
+  repo: RepoConfig,
+  options: IndexOptions & { commit: string; uid: string; identity: IndexIdentity },
+  tracker: ProgressTracker
+): Promise<IndexSummary> {
+  const { commit, uid, identity } = options;
+  await deleteIndex(uid);
+  await ensureIndex(identity.dimensions, uid);
+  const tasks = createTaskTracker(logger);
+  tasks.track(await setIndexIdentity(identity, uid), { action: 'identity' });
+  const ignoreMatcher = ignoreFromSources(
+    await Promise.all(IGNORE_FILES.map((name) => gitShowFile(repo.root, commit, name))),
+    repoIgnorePatterns(repo)
+  );
+  const summary: IndexSummary = { indexedFiles: 0, indexedChunks: 0, skippedFiles: 0, removedFiles: 0 };
+  const entries = (await gitListFiles(repo.root, commit))
+    .filter((entry) => shouldIndex(entry.path) && !ignoreMatcher.ignores(entry.path));
+  tracker.discovered(entries.length);
+  for (const entry of entries) {
+    if (entry.size > MAX_FILE_BYTES) {
+      summary.skippedFiles += 1;
+      tracker.processed(entry.path, 'skipped');
+      continue;
+    }
+    tracker.file(entry.path);
+    try {
+      const content = await gitReadBlob(repo.root, entry.object);
+      const docs = await documentsForFile(repo, entry.path, content, sha256(content), commit);
+      tasks.track(await addDocuments(docs, undefined, uid), { action: 'add', file: entry.path });
+      summary.indexedFiles += 1;
+      summary.indexedChunks += docs.length;
+      tracker.processed(entry.path, 'indexed', docs.length);
+    } catch (error) {
+      tracker.processed(entry.path, 'failed');
+      logger({ event: 'error', file: entry.path, message: 'Failed to index file', detail: error instanceof Error ? error.message : error });
+    }
+  }
+  if (options.wait) {
+    tracker.phase('settle');
+    summary.failedTasks = (await tasks.settle()).failed;
+  } else {
+    settleInBackground(() => tasks.settle(), logger);
+  }
+  return summary;
+}
+
+function relativeFromAbsolute(root: string, full: string): string {
+  return path.relative(root, full).split(path.sep).join('/');
+}
+
+export interface FileReindexResult {
+  file: string;
+  chunks: number;
+  failedTasks?: number;
+}
+
+export async function reindexFile(file: string, options: IndexOptions = {}, logger: Logger = defaultLogger): Promise<FileReindexResult> {
+  const repo = options.repo ?? defaultRepoConfig();
+  const rel = relativeFromAbsolute(repo.root, path.resolve(repo.root, file));
+  if (!rel || rel.startsWith('..')) {
+    throw new Error(`File is outside the repository: ${file}`);
+  }
+  const identity = await currentIdentity();
+  const previous = await findIdentityMismatch(repo.indexUid, identity);
+  if (previous) {
+    throw new Error(
+      `Index "${repo.indexUid}" was built with ${previous.model} (${previous.dimensions} dims), `
+      + `but the current embedder is ${identity.model} (${identity.dimensions} dims). Run a full reindex with --migrate first.`
+    );
+  }
+  await ensureIndex(identity.dimensions, repo.indexUid);
+  const ignoreMatcher = await loadIgnore(repo.root, repoIgnorePatterns(repo));
+  const tasks = createTaskTracker(logger);
+  const commit = await gitHead(repo.root);
+  const scratch: IndexTarget = { repo, uid: repo.indexUid, manifest: emptyManifest(manifestSettings(repo)), tasks, commit };
+  const plan: FilePlan = shouldIndex(rel) && !ignoreMatcher.ignores(rel)
+    ? await planFile(rel, path.join(repo.root, rel), scratch, true)
+    : { action: 'remove' };
+  tasks.track(await deleteByFilePath(rel, repo.indexUid), { action: 'delete', file: rel });
+  if (plan.action === 'write') {
+    tasks.track(await addDocuments(plan.docs, undefined, repo.indexUid), { action: 'add', file: rel });
+  }
+  const chunks = plan.action === 'write' ? plan.docs.length : 0;
+  // Chunking and embedding happen above: with embedder retries they can outlast
+  // the lock's patience, so the lock only covers merging this file's entry.
+  const { manifest } = await updateManifest(repo.stateFile, manifestSettings(repo), async (loaded) => {
+    const current = await verifyManifest(logger, repo, loaded);
+    if (plan.action === 'write') {
+      current.files[rel] = plan.entry;
+    } else {
+      delete current.files[rel];
+    }
+  });
+  manifestPromises.set(repo.stateFile, Promise.resolve(manifest));
+  logger({ event: 'file', action: chunks === 0 ? 'delete' : 'change', file: rel, chunks });
+  if (!options.wait) {
+    settleInBackground(() => settleManifest(tasks, repo, manifest, logger), logger);
+    return { file: rel, chunks };
+  }
+  return { file: rel, chunks, failedTasks: (await settleManifest(tasks, repo, manifest, logger)).failed };
 }
 
 export interface WatcherHandle {
+  repo: RepoConfig;
   watcher: FSWatcher;
   close: () => Promise<void>;
+  rebuild: (progress?: IndexProgress) => Promise<IndexSummary>;
   summary: IndexSummary;
+  commit: string | null;
 }
 
-export async function startWatcher(logger: Logger = defaultLogger): Promise<WatcherHandle> {
-  let ignoreMatcher = await loadIgnore(ROOT);
-  const summary = await rebuildRepository(logger);
+export async function startWatcher(logger: Logger = defaultLogger, options: IndexOptions = {}): Promise<WatcherHandle> {
+  const repo = options.repo ?? defaultRepoConfig();
+  let ignoreMatcher = await loadIgnore(repo.root, repoIgnorePatterns(repo));
+  const summary = await rebuildRepository(logger, repo, options, 'initial');
   logger({ event: 'index', phase: 'initial', ...summary });
+  const tasks = createTaskTracker(logger);
 
   let queue = Promise.resolve();
   const enqueue = (task: () => Promise<void>) => {
@@ -126,9 +571,74 @@ export async function startWatcher(logger: Logger = defaultLogger): Promise<Watc
     return queue;
   };
 
-  const watcher = chokidar.watch(ROOT, {
+  const pending = new Set<string>();
+
+  const flush = async () => {
+    const manifest = await getManifest(repo);
+    const files = new Set(pending);
+    pending.clear();
+    const head = await gitHead(repo.root);
+    const changed = new Set<string>();
+    let commit = head;
+    if (head && manifest.commit && head !== manifest.commit) {
+      try {
+        const changes = await gitChangedFiles(repo.root, manifest.commit, head);
+        for (const change of changes) {
+          if (shouldIndex(change.path) && !ignoreMatcher.ignores(change.path)) {
+            changed.add(change.path);
+            files.add(change.path);
+          }
+        }
+        logger({ event: 'git', action: 'head-change', from: manifest.commit, to: head, files: changes.length });
+      } catch (error) {
+        commit = manifest.commit;
+        logger({ event: 'error', message: 'Failed to diff against last indexed commit', detail: error instanceof Error ? error.message : error });
+      }
+    }
+    if (files.size > 0) {
+      const tracker = trackRun(repo, 'sync');
+      tracker.discovered(files.size);
+      const results = await tracked(tracker, async () => {
+        const synced = await syncBatch(files, { repo, uid: repo.indexUid, manifest, tasks, commit: head }, logger);
+        const done = new Set(synced.map((result) => result.file));
+        for (const result of synced) {
+          tracker.processed(result.file, result.chunks === null ? 'skipped' : 'indexed', result.chunks ?? 0);
+        }
+        for (const file of files) {
+          if (!done.has(file)) {
+            tracker.processed(file, 'failed');
+          }
+        }
+        return synced;
+      });
+      const applied = new Set(results.map((result) => result.file));
+      if ([...changed].some((file) => !applied.has(file))) {
+        commit = manifest.commit;
+      }
+      for (const result of results) {
+        logger({ event: 'file', action: result.chunks === 0 ? 'delete' : 'change', file: result.file, chunks: result.chunks ?? 0 });
+      }
+    }
+    manifest.commit = commit;
+    handle.commit = commit;
+    await saveManifest(repo.stateFile, manifest);
+    settleInBackground(() => settleManifest(tasks, repo, manifest, logger), logger);
+  };
+
+  const flushes = createDebouncer(() => {
+    enqueue(flush);
+  }, WATCH_DEBOUNCE_MS, WATCH_MAX_WAIT_MS);
+
+  const schedule = (rel?: string) => {
+    if (rel) {
+      pending.add(rel);
+    }
+    flushes.schedule();
+  };
+
+  const watcher = chokidar.watch(repo.root, {
     ignored: (filePath) => {
-      const rel = relativeFromAbsolute(filePath);
+      const rel = relativeFromAbsolute(repo.root, filePath);
       if (!rel || rel.startsWith('..')) {
         return false;
       }
@@ -142,58 +652,93 @@ export async function startWatcher(logger: Logger = defaultLogger): Promise<Watc
   });
 
   watcher.on('add', (fullPath) => {
-    const rel = relativeFromAbsolute(fullPath);
-    if (!shouldIndex(rel)) {
-      return;
+    const rel = relativeFromAbsolute(repo.root, fullPath);
+    if (shouldIndex(rel)) {
+      schedule(rel);
     }
-    enqueue(async () => {
-      const count = await reindexFile(rel, fullPath, logger);
-      logger({ event: 'file', action: 'add', file: rel, chunks: count });
-    });
   });
 
   watcher.on('change', (fullPath) => {
-    const rel = relativeFromAbsolute(fullPath);
+    const rel = relativeFromAbsolute(repo.root, fullPath);
     if (rel === '.gitignore' || rel === '.ragignore') {
       enqueue(async () => {
-        ignoreMatcher = await loadIgnore(ROOT);
-        const result = await rebuildRepository(logger);
+        ignoreMatcher = await loadIgnore(repo.root, repoIgnorePatterns(repo));
+        const result = await rebuildRepository(logger, repo, {}, 'refresh');
+        handle.summary = result;
         logger({ event: 'index', phase: 'ignore-refresh', ...result });
       });
       return;
     }
-    if (!shouldIndex(rel)) {
-      return;
+    if (shouldIndex(rel)) {
+      schedule(rel);
     }
-    enqueue(async () => {
-      const count = await reindexFile(rel, fullPath, logger);
-      logger({ event: 'file', action: 'change', file: rel, chunks: count });
-    });
   });
 
   watcher.on('unlink', (fullPath) => {
-    const rel = relativeFromAbsolute(fullPath);
-    enqueue(async () => {
-      await deleteByFilePath(rel);
-      logger({ event: 'file', action: 'delete', file: rel });
-    });
+    schedule(relativeFromAbsolute(repo.root, fullPath));
   });
 
+  const repoGitDir = await gitDir(repo.root);
+  const headWatcher = repoGitDir
+    ? chokidar.watch([path.join(repoGitDir, 'HEAD'), path.join(repoGitDir, 'refs', 'heads')], { ignoreInitial: true })
+    : null;
+  headWatcher?.on('all', () => schedule());
+
   const close = async () => {
-    await watcher.close();
+    flushes.cancel();
+    await Promise.all([watcher.close(), headWatcher?.close()]);
   };
 
-  return { watcher, close, summary };
+  const rebuild = (progress: IndexProgress = {}) => new Promise<IndexSummary>((resolve, reject) => {
+    enqueue(async () => {
+      try {
+        const tracker = trackRun(repo, 'rebuild');
+        const result = await tracked(tracker, async () => rebuildIntoShadow(logger, repo, await currentIdentity(), tracker, progress));
+        handle.summary = result;
+        handle.commit = (await getManifest(repo)).commit;
+        logger({ event: 'index', phase: 'rebuild', ...result });
+        resolve(result);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+
+  const handle: WatcherHandle = { repo, watcher, close, rebuild, summary, commit: (await getManifest(repo)).commit };
+  return handle;
 }
 
 async function cliMain() {
-  if (process.argv.includes('--watch')) {
-    await startWatcher();
+  const options: IndexOptions = {
+    force: process.argv.includes('--full'),
+    migrate: process.argv.includes('--migrate'),
+    wait: process.argv.includes('--wait')
+  };
+  const bar = process.stderr.isTTY && !process.argv.includes('--no-progress') ? createProgressBar(process.stderr) : null;
+  if (bar) {
+    indexEvents.subscribe(bar.update);
+  }
+  const logger: Logger = bar
+    ? (payload) => {
+      bar.clear();
+      defaultLogger(payload);
+      bar.redraw();
+    }
+    : defaultLogger;
+  const revIndex = process.argv.indexOf('--rev');
+  if (revIndex !== -1) {
+    const rev = process.argv[revIndex + 1];
+    if (!rev || rev.startsWith('--')) {
+      throw new Error('--rev requires a git revision');
+    }
+    await indexRevision({ ...options, rev }, logger);
+  } else if (process.argv.includes('--watch')) {
+    await startWatcher(logger, options);
     await new Promise(() => {
       /* keep process alive */
     });
   } else {
-    await indexOnce();
+    await indexOnce(logger, options);
   }
 }
 
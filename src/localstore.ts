@@ -0,0 +1,594 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import process from 'node:process';
+
+import { compileFilter } from './filters.js';
+import { withFileLock } from './fsutil.js';
+import {
+  EMBEDDER_NAME,
+  type DocumentsPage,
+  type DocumentsRequest,
+  type IndexIdentity,
+  type IndexStats,
+  type SearchRequest,
+  type SearchResponse,
+  type Store
+} from './store.js';
+
+export const LOCAL_STORE_DIR = path.resolve(process.env.REPO_ROOT ?? '.', process.env.RAG_LOCAL_STORE_DIR ?? '.rag_store');
+const HYBRID_SEMANTIC_RATIO = 0.5;
+const COMPACT_MIN_ENTRIES = 1_000;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+type StoredDocument = Record<string, unknown> & { id: string };
+
+type LogEntry = { op: 'put'; doc: StoredDocument } | { op: 'delete'; ids: string[] };
+
+interface KeywordIndex {
+  postings: Map<string, Map<string, number>>;
+  lengths: Map<string, number>;
+  averageLength: number;
+}
+
+interface FileSignature {
+  ino: number;
+  size: number;
+  mtimeMs: number;
+}
+
+interface LocalIndex {
+  uid: string;
+  dimensions: number | null;
+  identity: IndexIdentity | null;
+  documents: Map<string, StoredDocument>;
+  vectors: Map<string, { values: Float32Array; norm: number }>;
+  logEntries: number;
+  keyword: KeywordIndex | null;
+  meta: FileSignature | null;
+  log: FileSignature | null;
+  refreshing: Promise<LocalIndex | null> | null;
+}
+
+const indexes = new Map<string, Promise<LocalIndex | null>>();
+const locks = new Map<string, Promise<unknown>>();
+
+function indexDir(uid: string): string {
+  return path.join(LOCAL_STORE_DIR, uid);
+}
+
+function metaPath(uid: string): string {
+  return path.join(indexDir(uid), 'meta.json');
+}
+
+function logPath(uid: string): string {
+  return path.join(indexDir(uid), 'documents.jsonl');
+}
+
+function lockPath(uid: string): string {
+  return `${indexDir(uid)}.lock`;
+}
+
+// Writes are serialized within the process by a promise chain and across
+// processes by a lock file next to the index directory.
+function withLock<T>(uid: string, task: () => Promise<T>): Promise<T> {
+  const locked = () => withFileLock(lockPath(uid), task);
+  const previous = locks.get(uid) ?? Promise.resolve();
+  const next = previous.then(locked, locked);
+  locks.set(uid, next.catch(() => undefined));
+  return next;
+}
+
+async function signature(file: string): Promise<FileSignature | null> {
+  try {
+    const stats = await fs.stat(file);
+    return { ino: stats.ino, size: stats.size, mtimeMs: stats.mtimeMs };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+function sameSignature(left: FileSignature | null, right: FileSignature | null): boolean {
+  return left?.ino === right?.ino && left?.size === right?.size && left?.mtimeMs === right?.mtimeMs;
+}
+
+async function readOptional(file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+function vectorNorm(values: Float32Array): number {
+  let sum = 0;
+  for (const value of values) {
+    sum += value * value;
+  }
+  return Math.sqrt(sum);
+}
+
+function applyEntry(index: LocalIndex, entry: LogEntry): void {
+  if (entry.op === 'delete') {
+    for (const id of entry.ids) {
+      index.documents.delete(id);
+      index.vectors.delete(id);
+    }
+    return;
+  }
+  const { _vectors: vectors, ...doc } = entry.doc;
+  const vector = (vectors as Record<string, unknown> | undefined)?.[EMBEDDER_NAME];
+  index.documents.set(doc.id as string, doc as StoredDocument);
+  if (Array.isArray(vector)) {
+    const values = Float32Array.from(vector as number[]);
+    index.vectors.set(doc.id as string, { values, norm: vectorNorm(values) });
+  } else {
+    index.vectors.delete(doc.id as string);
+  }
+}
+
+function emptyIndex(uid: string): LocalIndex {
+  return {
+    uid,
+    dimensions: null,
+    identity: null,
+    documents: new Map(),
+    vectors: new Map(),
+    logEntries: 0,
+    keyword: null,
+    meta: null,
+    log: null,
+    refreshing: null
+  };
+}
+
+async function readMeta(index: LocalIndex): Promise<boolean> {
+  const meta = await signature(metaPath(index.uid));
+  const raw = meta && await readOptional(metaPath(index.uid));
+  if (!meta || raw === null) {
+    return false;
+  }
+  const parsed = JSON.parse(raw) as { dimensions?: number | null; identity?: IndexIdentity | null };
+  index.dimensions = parsed.dimensions ?? null;
+  index.identity = parsed.identity ?? null;
+  index.meta = meta;
+  return true;
+}
+
+// Applies complete lines from `offset` on; a trailing line without a newline is
+// still being written and is picked up by the next read.
+async function readLog(index: LocalIndex, offset: number): Promise<void> {
+  let content: Buffer;
+  try {
+    const handle = await fs.open(logPath(index.uid), 'r');
+    try {
+      const { size, ino, mtimeMs } = await handle.stat();
+      content = Buffer.alloc(Math.max(0, size - offset));
+      await handle.read(content, 0, content.length, offset);
+      index.log = { ino, size, mtimeMs };
+    } finally {
+      await handle.close();
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+    index.log = null;
+    return;
+  }
+  const complete = content.lastIndexOf(0x0a) + 1;
+  index.log.size = offset + complete;
+  for (const line of content.subarray(0, complete).toString('utf8').split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      applyEntry(index, JSON.parse(line) as LogEntry);
+      index.logEntries += 1;
+    } catch {
+      // a torn line from an interrupted write is dropped
+    }
+  }
+  index.keyword = null;
+}
+
+async function readIndex(uid: string): Promise<LocalIndex | null> {
+  const index = emptyIndex(uid);
+  if (!(await readMeta(index))) {
+    return null;
+  }
+  await readLog(index, 0);
+  return index;
+}
+
+// Another process may append to, compact, swap or delete the index on disk, so
+// cached copies are checked against the files before use.
+async function refreshIndex(index: LocalIndex): Promise<LocalIndex | null> {
+  const meta = await signature(metaPath(index.uid));
+  if (!meta) {
+    return null;
+  }
+  if (!sameSignature(meta, index.meta) && !(await readMeta(index))) {
+    return null;
+  }
+  const log = await signature(logPath(index.uid));
+  if (sameSignature(log, index.log)) {
+    return index;
+  }
+  if (log && index.log && log.ino === index.log.ino && log.size > index.log.size) {
+    await readLog(index, index.log.size);
+    return index;
+  }
+  return readIndex(index.uid);
+}
+
+async function loadIndex(uid: string): Promise<LocalIndex | null> {
+  const promise = indexes.get(uid);
+  if (!promise) {
+    const loading = readIndex(uid);
+    indexes.set(uid, loading);
+    const index = await loading;
+    if (!index && indexes.get(uid) === loading) {
+      indexes.delete(uid);
+    }
+    return index;
+  }
+  const cached = await promise;
+  if (!cached) {
+    return loadIndex(uid);
+  }
+  if (!cached.refreshing) {
+    cached.refreshing = refreshIndex(cached).finally(() => {
+      cached.refreshing = null;
+    });
+  }
+  const fresh = await cached.refreshing;
+  if (fresh !== cached && indexes.get(uid) === promise) {
+    if (fresh) {
+      indexes.set(uid, Promise.resolve(fresh));
+    } else {
+      indexes.delete(uid);
+    }
+  }
+  return fresh;
+}
+
+async function writeMeta(index: LocalIndex): Promise<void> {
+  await fs.mkdir(indexDir(index.uid), { recursive: true });
+  const target = metaPath(index.uid);
+  await fs.writeFile(`${target}.tmp`, JSON.stringify({ dimensions: index.dimensions, identity: index.identity }, null, 2));
+  await fs.rename(`${target}.tmp`, target);
+  index.meta = await signature(target);
+}
+
+async function createIndexIfNeeded(uid: string): Promise<LocalIndex> {
+  const existing = await loadIndex(uid);
+  if (existing) {
+    return existing;
+  }
+  const index = emptyIndex(uid);
+  await writeMeta(index);
+  indexes.set(uid, Promise.resolve(index));
+  return index;
+}
+
+function storedEntry(index: LocalIndex, id: string): LogEntry {
+  const doc = index.documents.get(id)!;
+  const vector = index.vectors.get(id);
+  return { op: 'put', doc: vector ? { ...doc, _vectors: { [EMBEDDER_NAME]: Array.from(vector.values) } } : doc };
+}
+
+async function compact(index: LocalIndex): Promise<void> {
+  const target = logPath(index.uid);
+  const handle = await fs.open(`${target}.tmp`, 'w');
+  try {
+    for (const id of index.documents.keys()) {
+      await handle.write(`${JSON.stringify(storedEntry(index, id))}\n`);
+    }
+  } finally {
+    await handle.close();
+  }
+  await fs.rename(`${target}.tmp`, target);
+  index.logEntries = index.documents.size;
+  index.log = await signature(target);
+}
+
+async function appendEntries(index: LocalIndex, entries: LogEntry[]): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+  for (const entry of entries) {
+    applyEntry(index, entry);
+  }
+  index.keyword = null;
+  index.logEntries += entries.length;
+  await fs.mkdir(indexDir(index.uid), { recursive: true });
+  await fs.appendFile(logPath(index.uid), entries.map((entry) => `${JSON.stringify(entry)}\n`).join(''));
+  index.log = await signature(logPath(index.uid));
+  if (index.logEntries > COMPACT_MIN_ENTRIES && index.logEntries > index.documents.size * 2) {
+    await compact(index);
+  }
+}
+
+export async function ensureIndex(dimensions: number, uid: string): Promise<void> {
+  await withLock(uid, async () => {
+    const index = await createIndexIfNeeded(uid);
+    index.dimensions = dimensions;
+    await writeMeta(index);
+  });
+}
+
+export async function getEmbedderDimensions(uid: string): Promise<number | null> {
+  return (await loadIndex(uid))?.dimensions ?? null;
+}
+
+export async function getIndexIdentity(uid: string): Promise<IndexIdentity | null> {
+  return (await loadIndex(uid))?.identity ?? null;
+}
+
+export async function setIndexIdentity(identity: IndexIdentity, uid: string): Promise<number[]> {
+  await withLock(uid, async () => {
+    const index = await createIndexIfNeeded(uid);
+    index.identity = identity;
+    await writeMeta(index);
+  });
+  return [];
+}
+
+export async function deleteIndex(uid: string): Promise<void> {
+  await withLock(uid, async () => {
+    indexes.delete(uid);
+    await fs.rm(indexDir(uid), { recursive: true, force: true });
+  });
+}
+
+export async function swapIndexes(first: string, second: string): Promise<number | null> {
+  if (first === second) {
+    return null;
+  }
+  const [outer, inner] = [first, second].sort();
+  await withLock(outer, () => withLock(inner, async () => {
+    const [left, right] = await Promise.all([loadIndex(first), loadIndex(second)]);
+    if (!left || !right) {
+      throw new Error(`Failed to swap indexes: ${!left ? first : second} does not exist`);
+    }
+    const parking = indexDir(`${first}.swap-${process.pid}`);
+    await fs.rename(indexDir(first), parking);
+    await fs.rename(indexDir(second), indexDir(first));
+    await fs.rename(parking, indexDir(second));
+    left.uid = second;
+    right.uid = first;
+    indexes.set(first, Promise.resolve(right));
+    indexes.set(second, Promise.resolve(left));
+  }));
+  return null;
+}
+
+export async function addDocuments(docs: unknown[], _batchSize: number | undefined, uid: string): Promise<number[]> {
+  if (docs.length === 0) {
+    return [];
+  }
+  await withLock(uid, async () => {
+    const index = await createIndexIfNeeded(uid);
+    await appendEntries(index, (docs as StoredDocument[]).map((doc) => ({ op: 'put', doc })));
+  });
+  return [];
+}
+
+export async function deleteByFilePaths(filePaths: string[], uid: string): Promise<number[]> {
+  await withLock(uid, async () => {
+    const index = await loadIndex(uid);
+    if (!index || filePaths.length === 0) {
+      return;
+    }
+    const targets = new Set(filePaths);
+    const ids = [...index.documents.values()].filter((doc) => targets.has(doc.filePath as string)).map((doc) => doc.id);
+    if (ids.length) {
+      await appendEntries(index, [{ op: 'delete', ids }]);
+    }
+  });
+  return [];
+}
+
+export async function deleteByFilePath(filePath: string, uid: string): Promise<number | null> {
+  await deleteByFilePaths([filePath], uid);
+  return null;
+}
+
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.match(/[\p{L}\p{N}_]+/gu) ?? []) {
+    const lower = word.toLowerCase();
+    tokens.push(lower);
+    const parts = word.split(/_+|(?<=[\p{Ll}\p{N}])(?=\p{Lu})|(?<=\p{Lu})(?=\p{Lu}\p{Ll})/u).filter(Boolean);
+    if (parts.length > 1) {
+      tokens.push(...parts.map((part) => part.toLowerCase()));
+    }
+  }
+  return tokens;
+}
+
+function keywordIndex(index: LocalIndex): KeywordIndex {
+  if (index.keyword) {
+    return index.keyword;
+  }
+  const postings = new Map<string, Map<string, number>>();
+  const lengths = new Map<string, number>();
+  let total = 0;
+  for (const doc of index.documents.values()) {
+    const tokens = tokenize([doc.filePath, doc.symbolName, doc.content].filter((part) => typeof part === 'string').join('\n'));
+    lengths.set(doc.id, tokens.length);
+    total += tokens.length;
+    for (const token of tokens) {
+      let posting = postings.get(token);
+      if (!posting) {
+        posting = new Map();
+        postings.set(token, posting);
+      }
+      posting.set(doc.id, (posting.get(doc.id) ?? 0) + 1);
+    }
+  }
+  index.keyword = { postings, lengths, averageLength: lengths.size ? total / lengths.size : 0 };
+  return index.keyword;
+}
+
+function keywordScores(index: LocalIndex, query: string): Map<string, number> {
+  const { postings, lengths, averageLength } = keywordIndex(index);
+  const scores = new Map<string, number>();
+  const count = index.documents.size;
+  for (const term of new Set(tokenize(query))) {
+    const posting = postings.get(term);
+    if (!posting) {
+      continue;
+    }
+    const idf = Math.log(1 + (count - posting.size + 0.5) / (posting.size + 0.5));
+    for (const [id, frequency] of posting) {
+      const length = lengths.get(id) ?? 0;
+      const score = idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * (length / (averageLength || 1))));
+      scores.set(id, (scores.get(id) ?? 0) + score);
+    }
+  }
+  const max = Math.max(0, ...scores.values());
+  if (max > 0) {
+    for (const [id, score] of scores) {
+      scores.set(id, score / max);
+    }
+  }
+  return scores;
+}
+
+function compileRequestFilter(filter: string): ReturnType<typeof compileFilter> {
+  try {
+    return compileFilter(filter);
+  } catch (error) {
+    throw Object.assign(error instanceof Error ? error : new Error(String(error)), { invalidRequest: true });
+  }
+}
+
+function vectorScore(index: LocalIndex, id: string, query: Float32Array, queryNorm: number): number {
+  const stored = index.vectors.get(id);
+  if (!stored || stored.values.length !== query.length || stored.norm === 0 || queryNorm === 0) {
+    return 0;
+  }
+  let dot = 0;
+  for (let i = 0; i < query.length; i += 1) {
+    dot += stored.values[i] * query[i];
+  }
+  return (1 + dot / (stored.norm * queryNorm)) / 2;
+}
+
+export async function search(uid: string, request: SearchRequest): Promise<SearchResponse> {
+  const started = Date.now();
+  const index = await loadIndex(uid);
+  if (!index) {
+    throw new Error(`Search failed: index "${uid}" does not exist`);
+  }
+  const matches = request.filter ? compileRequestFilter(request.filter) : null;
+  const query = request.q?.trim() ? request.q : null;
+  const keyword = query ? keywordScores(index, query) : null;
+  const vector = Array.isArray(request.vector) ? Float32Array.from(request.vector) : null;
+  const queryNorm = vector ? vectorNorm(vector) : 0;
+  const hybrid = request.hybrid as { semanticRatio?: number } | undefined;
+  const ratio = hybrid?.semanticRatio ?? HYBRID_SEMANTIC_RATIO;
+
+  const scored: Array<{ doc: StoredDocument; score: number }> = [];
+  for (const doc of index.documents.values()) {
+    if (matches && !matches(doc)) {
+      continue;
+    }
+    let score: number;
+    if (vector && keyword) {
+      score = ratio * vectorScore(index, doc.id, vector, queryNorm) + (1 - ratio) * (keyword.get(doc.id) ?? 0);
+    } else if (vector) {
+      score = vectorScore(index, doc.id, vector, queryNorm);
+    } else if (keyword) {
+      if (!keyword.has(doc.id)) {
+        continue;
+      }
+      score = keyword.get(doc.id)!;
+    } else {
+      score = 1;
+    }
+    scored.push({ doc, score });
+  }
+  scored.sort((a, b) => b.score - a.score);
+
+  const offset = request.offset ?? 0;
+  const limit = request.limit ?? 20;
+  const hits = scored.slice(offset, offset + limit).map(({ doc, score }) => (
+    request.showRankingScore ? { ...doc, _rankingScore: score } : { ...doc }
+  ));
+  return {
+    hits,
+    query: request.q ?? '',
+    limit,
+    offset,
+    estimatedTotalHits: scored.length,
+    processingTimeMs: Date.now() - started
+  };
+}
+
+export async function multiSearch(queries: Array<SearchRequest & { indexUid: string }>): Promise<SearchResponse[]> {
+  return Promise.all(queries.map(({ indexUid, ...request }) => search(indexUid, request)));
+}
+
+export async function stats(uid: string): Promise<IndexStats | null> {
+  const index = await loadIndex(uid);
+  if (!index) {
+    return null;
+  }
+  const fieldDistribution: Record<string, number> = {};
+  for (const doc of index.documents.values()) {
+    for (const [field, value] of Object.entries(doc)) {
+      if (value !== undefined) {
+        fieldDistribution[field] = (fieldDistribution[field] ?? 0) + 1;
+      }
+    }
+  }
+  return { numberOfDocuments: index.documents.size, isIndexing: false, fieldDistribution };
+}
+
+export async function fetchDocuments(uid: string, request: DocumentsRequest): Promise<DocumentsPage> {
+  const index = await loadIndex(uid);
+  if (!index) {
+    throw new Error(`Failed to fetch documents: index "${uid}" does not exist`);
+  }
+  const matches = request.filter ? compileRequestFilter(request.filter) : null;
+  const offset = request.offset ?? 0;
+  const limit = request.limit ?? 20;
+  const documents = matches ? [...index.documents.values()].filter((doc) => matches(doc)) : [...index.documents.values()];
+  const results = documents.slice(offset, offset + limit).map((doc) => {
+    const result: Record<string, unknown> = request.fields
+      ? Object.fromEntries(request.fields.filter((field) => field in doc).map((field) => [field, doc[field]]))
+      : { ...doc };
+    const vector = index.vectors.get(doc.id);
+    if (request.retrieveVectors && vector) {
+      result._vectors = { [EMBEDDER_NAME]: { embeddings: [Array.from(vector.values)], regenerate: false } };
+    }
+    return result;
+  });
+  return { results, offset, limit, total: documents.length };
+}
+
+export const localStore: Store = {
+  kind: 'local',
+  ensureIndex,
+  getEmbedderDimensions,
+  getIndexIdentity,
+  setIndexIdentity,
+  swapIndexes,
+  deleteIndex,
+  addDocuments,
+  deleteByFilePath,
+  deleteByFilePaths,
+  search,
+  multiSearch,
+  stats,
+  fetchDocuments
+};
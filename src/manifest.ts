@@ -0,0 +1,88 @@
+import fs from 'node:fs/promises';
+
+import { withFileLock } from './fsutil.js';
+
+const MANIFEST_VERSION = 1;
+
+export interface ManifestEntry {
+  hash: string;
+  mtimeMs: number;
+  size: number;
+  chunks: number;
+}
+
+export type ManifestSettings = Record<string, string | number>;
+
+export interface Manifest {
+  version: number;
+  settings: ManifestSettings;
+  commit: string | null;
+  files: Record<string, ManifestEntry>;
+}
+
+export function emptyManifest(settings: ManifestSettings): Manifest {
+  return { version: MANIFEST_VERSION, settings, commit: null, files: {} };
+}
+
+export async function loadManifest(file: string, settings: ManifestSettings): Promise<Manifest> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return emptyManifest(settings);
+    }
+    throw error;
+  }
+  let parsed: Partial<Manifest>;
+  try {
+    parsed = JSON.parse(raw) as Partial<Manifest>;
+  } catch {
+    return emptyManifest(settings);
+  }
+  if (
+    parsed.version !== MANIFEST_VERSION
+    || JSON.stringify(parsed.settings) !== JSON.stringify(settings)
+    || !parsed.files
+    || typeof parsed.files !== 'object'
+  ) {
+    return emptyManifest(settings);
+  }
+  return { version: MANIFEST_VERSION, settings, commit: parsed.commit ?? null, files: parsed.files };
+}
+
+// The placeholder never matches a file on disk, so the next run re-indexes files
+// that still exist and retries the removal of files that are gone.
+export function invalidateEntries(manifest: Manifest, files: Iterable<string>): number {
+  let count = 0;
+  for (const file of files) {
+    manifest.files[file] = { hash: '', mtimeMs: -1, size: -1, chunks: 0 };
+    count += 1;
+  }
+  return count;
+}
+
+async function writeManifest(file: string, manifest: Manifest): Promise<void> {
+  const tmp = `${file}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(manifest));
+  await fs.rename(tmp, file);
+}
+
+export async function saveManifest(file: string, manifest: Manifest): Promise<void> {
+  await withFileLock(`${file}.lock`, () => writeManifest(file, manifest));
+}
+
+// Re-reads the manifest under the lock, so a process that does not own the state
+// file (e.g. the MCP server next to a running serve) starts from the latest entries.
+export async function updateManifest<T>(
+  file: string,
+  settings: ManifestSettings,
+  update: (manifest: Manifest) => Promise<T>
+): Promise<{ manifest: Manifest; result: T }> {
+  return withFileLock(`${file}.lock`, async () => {
+    const manifest = await loadManifest(file, settings);
+    const result = await update(manifest);
+    await writeManifest(file, manifest);
+    return { manifest, result };
+  });
+}
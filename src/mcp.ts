@@ -0,0 +1,496 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import process from 'node:process';
+import readline from 'node:readline';
+import { randomUUID } from 'node:crypto';
+import { URL } from 'node:url';
+
+import { accessConfigFromEnv, createAccess, isAccessError, type Role } from './access.js';
+import { defaultRepoConfig } from './config.js';
+import { quote } from './filters.js';
+import { gitHead } from './git.js';
+import { reindexFile } from './indexer.js';
+import { codeFence, numberedLines } from './pack.js';
+import { parseMode, parseRev, searchCode, type SearchHit, type SearchOptions } from './searchcore.js';
+import { readRegion, repoRelativePath, sourceLocation } from './similar.js';
+import { STORE_KIND, fetchDocuments, getIndexIdentity, indexStats, revisionIndexUid } from './store.js';
+
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+const SERVER_INFO = { name: 'repo-indexer', version: '1.0.0' };
+const MAX_READ_LINES = Number(process.env.RAG_MCP_MAX_READ_LINES ?? '400');
+const SSE_KEEPALIVE_MS = 25_000;
+
+type JsonRpcId = string | number | null;
+
+interface JsonRpcMessage {
+  jsonrpc?: string;
+  id?: JsonRpcId;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+type ToolArgs = Record<string, unknown>;
+
+interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+  role?: Role;
+  handler: (args: ToolArgs) => Promise<string>;
+}
+
+const repo = defaultRepoConfig();
+
+const log = (payload: Record<string, unknown>) => {
+  console.error(JSON.stringify(payload));
+};
+
+const stringList = { anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }] };
+
+const filterProperties = {
+  path: { ...stringList, description: 'Restrict to paths or globs, e.g. "src/**" or "*.ts"' },
+  lang: { ...stringList, description: 'Restrict to languages, e.g. "ts" or "python"' },
+  exclude: { ...stringList, description: 'Exclude paths or globs' },
+  perFile: { type: 'integer', minimum: 1, description: 'Maximum results per file' },
+  rev: { type: 'string', description: 'Search the index built for this git revision (npm run index:once -- --rev <ref>)' }
+};
+
+function optionalString(args: ToolArgs, name: string): string | undefined {
+  const value = args[name];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new Error(`${name} must be a string`);
+  }
+  return value;
+}
+
+function requiredString(args: ToolArgs, name: string): string {
+  const value = optionalString(args, name);
+  if (!value?.trim()) {
+    throw new Error(`${name} is required`);
+  }
+  return value;
+}
+
+function optionalInteger(args: ToolArgs, name: string, min: number, max = Infinity): number | undefined {
+  const value = args[name];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`${name} must be an integer between ${min} and ${max}`);
+  }
+  return value;
+}
+
+function stringListArg(args: ToolArgs, name: string): string[] {
+  const value = args[name];
+  if (value === undefined || value === null) {
+    return [];
+  }
+  const list = Array.isArray(value) ? value : [value];
+  if (list.some((item) => typeof item !== 'string')) {
+    throw new Error(`${name} must be a string or an array of strings`);
+  }
+  return list as string[];
+}
+
+function searchOptionsFor(args: ToolArgs): SearchOptions {
+  return {
+    limit: optionalInteger(args, 'limit', 1, 50) ?? 8,
+    paths: stringListArg(args, 'path'),
+    languages: stringListArg(args, 'lang'),
+    excludes: stringListArg(args, 'exclude'),
+    filter: optionalString(args, 'filter'),
+    rev: optionalString(args, 'rev'),
+    perFile: optionalInteger(args, 'perFile', 1),
+    rerank: false,
+    targets: [{ index: repo.indexUid, root: repo.root }]
+  };
+}
+
+// read_chunk only serves files that the indexer picked up, so ignored files
+// inside the root such as .env or .git/config stay unreadable.
+async function assertIndexed(filePath: string, rev?: string): Promise<void> {
+  const rel = repoRelativePath(repo.root, filePath);
+  const uid = rev ? revisionIndexUid(rev, repo.indexUid) : repo.indexUid;
+  const page = await fetchDocuments(uid, { filter: `filePath = ${quote(rel)}`, limit: 1, fields: ['filePath'] });
+  if (page.results.length === 0) {
+    throw new Error(`File is not indexed: ${rel}`);
+  }
+}
+
+function renderHits(title: string, hits: SearchHit[]): string {
+  if (hits.length === 0) {
+    return `${title}\n\nNo results.`;
+  }
+  const sections = hits.map((hit, position) => {
+    const score = typeof hit._rankingScore === 'number' ? ` (score ${hit._rankingScore.toFixed(3)})` : '';
+    const symbol = typeof hit.symbolName === 'string' ? ` ${hit.symbolName}` : '';
+    const stale = hit.stale ? ' [stale: file changed since indexing]' : '';
+    const body = numberedLines(hit.snippet.text, hit.snippet.startLine);
+    const fence = codeFence(body);
+    return [
+      `${position + 1}. ${hit.filePath}:${hit.startLine}-${hit.endLine}${symbol}${score}${stale}`,
+      `${fence}${typeof hit.language === 'string' ? hit.language : ''}`,
+      body,
+      fence
+    ].join('\n');
+  });
+  return `${title}\n\n${sections.join('\n\n')}`;
+}
+
+const tools: ToolDefinition[] = [
+  {
+    name: 'search_code',
+    description: 'Semantic and keyword search over the indexed repository. Returns the most relevant code fragments with file paths and line numbers.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'What to look for, in natural language or as identifiers' },
+        mode: { type: 'string', enum: ['vector', 'keyword', 'hybrid', 'rrf'], default: 'vector', description: 'Retrieval mode' },
+        limit: { type: 'integer', minimum: 1, maximum: 50, default: 8 },
+        filter: { type: 'string', description: 'Raw Meilisearch filter expression, e.g. symbolKind = "class"' },
+        ...filterProperties
+      },
+      required: ['query']
+    },
+    handler: async (args) => {
+      const query = requiredString(args, 'query');
+      const mode = parseMode(optionalString(args, 'mode'));
+      const result = await searchCode({ ...searchOptionsFor(args), query, mode });
+      return renderHits(`Results for "${query}" (${mode}):`, result.hits ?? []);
+    }
+  },
+  {
+    name: 'read_chunk',
+    description: 'Read lines of a repository file with line numbers, e.g. to expand a search result.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', description: 'Path relative to the repository root' },
+        start: { type: 'integer', minimum: 1, description: 'First line (default 1)' },
+        end: { type: 'integer', minimum: 1, description: 'Last line (default: end of file)' },
+        rev: { type: 'string', description: 'Read the file at this git revision instead of the working tree' }
+      },
+      required: ['file']
+    },
+    handler: async (args) => {
+      const location = sourceLocation(args.file, args.start, args.end);
+      const rev = parseRev(optionalString(args, 'rev'));
+      await assertIndexed(location.filePath, rev);
+      const region = await readRegion(repo.root, location, rev);
+      const lines = region.text.split('\n');
+      const shown = lines.slice(0, MAX_READ_LINES);
+      const lastLine = region.startLine + shown.length - 1;
+      const truncated = lines.length > shown.length
+        ? `\n\n(truncated at ${MAX_READ_LINES} lines; continue with start=${lastLine + 1})`
+        : '';
+      const body = numberedLines(shown.join('\n'), region.startLine);
+      const fence = codeFence(body);
+      return `${region.filePath}:${region.startLine}-${lastLine}\n${fence}\n${body}\n${fence}${truncated}`;
+    }
+  },
+  {
+    name: 'find_similar',
+    description: 'Find code similar to a region of a file (e.g. to spot duplicated logic). The region itself is excluded from the results.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', description: 'Path relative to the repository root' },
+        start: { type: 'integer', minimum: 1 },
+        end: { type: 'integer', minimum: 1 },
+        limit: { type: 'integer', minimum: 1, maximum: 50, default: 8 },
+        ...filterProperties
+      },
+      required: ['file']
+    },
+    handler: async (args) => {
+      const result = await searchCode({ ...searchOptionsFor(args), like: sourceLocation(args.file, args.start, args.end) });
+      const source = result.source!;
+      return renderHits(`Code similar to ${source.filePath}:${source.startLine}-${source.endLine}:`, result.hits ?? []);
+    }
+  },
+  {
+    name: 'index_status',
+    description: 'Report the index state: document count, whether indexing is in progress, embedding model and git commit.',
+    inputSchema: { type: 'object', properties: {} },
+    handler: async () => {
+      const [stats, identity, head] = await Promise.all([
+        indexStats(repo.indexUid),
+        getIndexIdentity(repo.indexUid),
+        gitHead(repo.root)
+      ]);
+      return JSON.stringify({
+        store: STORE_KIND,
+        index: repo.indexUid,
+        root: repo.root,
+        exists: stats !== null,
+        documents: stats?.numberOfDocuments ?? 0,
+        isIndexing: stats?.isIndexing ?? false,
+        model: identity?.model ?? null,
+        dimensions: identity?.dimensions ?? null,
+        head
+      }, null, 2);
+    }
+  },
+  {
+    name: 'reindex_file',
+    description: 'Re-index a single file after editing it so that search results reflect the change. Removes the file from the index if it was deleted or is ignored.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', description: 'Path relative to the repository root' }
+      },
+      required: ['file']
+    },
+    role: 'admin',
+    handler: async (args) => {
+      const result = await reindexFile(requiredString(args, 'file'), { repo, wait: true }, log);
+      return JSON.stringify(result, null, 2);
+    }
+  }
+];
+
+function rpcError(id: JsonRpcId, code: number, message: string): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
+async function handleMessage(payload: unknown, role: Role): Promise<JsonRpcResponse | null> {
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    return rpcError(null, -32600, 'Invalid request');
+  }
+  const message = payload as JsonRpcMessage;
+  if (typeof message.method !== 'string') {
+    return 'id' in message ? rpcError(message.id ?? null, -32600, 'Invalid request') : null;
+  }
+  if (message.id === undefined) {
+    return null;
+  }
+  const { id, method } = message;
+  const params = typeof message.params === 'object' && message.params !== null ? message.params : {};
+  switch (method) {
+    case 'initialize': {
+      const requested = typeof params.protocolVersion === 'string' ? params.protocolVersion : '';
+      return {
+        jsonrpc: '2.0',
+        id,
+        result: {
+          protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : SUPPORTED_PROTOCOL_VERSIONS[0],
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: SERVER_INFO,
+          instructions: `Code search over ${repo.name} (${repo.root}). Use search_code first, then read_chunk to expand results.`
+        }
+      };
+    }
+    case 'ping':
+      return { jsonrpc: '2.0', id, result: {} };
+    case 'tools/list':
+      return {
+        jsonrpc: '2.0',
+        id,
+        result: { tools: tools.map(({ name, description, inputSchema }) => ({ name, description, inputSchema })) }
+      };
+    case 'tools/call': {
+      const tool = tools.find((candidate) => candidate.name === params.name);
+      if (!tool) {
+        return rpcError(id, -32602, `Unknown tool: ${String(params.name)}`);
+      }
+      if (tool.role === 'admin' && role !== 'admin') {
+        return { jsonrpc: '2.0', id, result: { content: [{ type: 'text', text: `${tool.name} requires an admin token` }], isError: true } };
+      }
+      try {
+        const text = await tool.handler((params.arguments ?? {}) as ToolArgs);
+        return { jsonrpc: '2.0', id, result: { content: [{ type: 'text', text }], isError: false } };
+      } catch (error) {
+        log({ event: 'error', tool: tool.name, message: error instanceof Error ? error.message : error });
+        const text = error instanceof Error ? error.message : String(error);
+        return { jsonrpc: '2.0', id, result: { content: [{ type: 'text', text }], isError: true } };
+      }
+    }
+    default:
+      return rpcError(id, -32601, `Method not found: ${method}`);
+  }
+}
+
+async function safeHandleMessage(payload: unknown, role: Role): Promise<JsonRpcResponse | null> {
+  try {
+    return await handleMessage(payload, role);
+  } catch (error) {
+    log({ event: 'error', message: 'Failed to handle MCP message', detail: error instanceof Error ? error.message : error });
+    const id = typeof payload === 'object' && payload !== null && 'id' in payload ? (payload as JsonRpcMessage).id ?? null : null;
+    return rpcError(id, -32603, 'Internal error');
+  }
+}
+
+async function handlePayload(raw: string, role: Role): Promise<JsonRpcResponse | JsonRpcResponse[] | null> {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(raw);
+  } catch {
+    return rpcError(null, -32700, 'Parse error');
+  }
+  if (Array.isArray(payload)) {
+    if (payload.length === 0) {
+      return rpcError(null, -32600, 'Invalid request');
+    }
+    const responses = (await Promise.all(payload.map((entry) => safeHandleMessage(entry, role))))
+      .filter((response): response is JsonRpcResponse => response !== null);
+    return responses.length ? responses : null;
+  }
+  return safeHandleMessage(payload, role);
+}
+
+function serveStdio(): void {
+  const input = readline.createInterface({ input: process.stdin, crlfDelay: Infinity });
+  const pending = new Set<Promise<void>>();
+  input.on('line', (line) => {
+    if (!line.trim()) {
+      return;
+    }
+    const task = handlePayload(line, 'admin').then((response) => {
+      if (response) {
+        process.stdout.write(`${JSON.stringify(response)}\n`);
+      }
+    }).catch((error) => {
+      log({ event: 'error', message: 'Failed to handle MCP payload', detail: error instanceof Error ? error.message : error });
+    }).finally(() => pending.delete(task));
+    pending.add(task);
+  });
+  input.on('close', async () => {
+    await Promise.allSettled([...pending]);
+    process.exit(0);
+  });
+  log({ event: 'mcp', transport: 'stdio', index: repo.indexUid, root: repo.root });
+}
+
+interface SseSession {
+  stream: http.ServerResponse;
+  client: string;
+}
+
+function serveHttp(host: string, port: number): void {
+  const access = createAccess(accessConfigFromEnv());
+  if (!access.enabled && !['127.0.0.1', '::1', 'localhost'].includes(host)) {
+    log({ event: 'warning', message: `MCP on ${host} has no auth; set RAG_SERVER_READ_TOKENS and RAG_SERVER_ADMIN_TOKENS` });
+  }
+  const sessions = new Map<string, SseSession>();
+  const server = http.createServer(async (req, res) => {
+    const requestUrl = new URL(req.url ?? '/', `http://${req.headers.host ?? `${host}:${port}`}`);
+    try {
+      // Browsers send Origin on cross-site requests; rejecting unknown origins
+      // keeps pages that rebind a hostname to 127.0.0.1 away from the tools.
+      access.checkOrigin(req);
+      if (access.cors(req, res)) {
+        res.writeHead(204).end();
+        return;
+      }
+      const { client, role } = access.admit(req, res, () => access.authenticate(req));
+
+      if (req.method === 'POST' && requestUrl.pathname === '/mcp') {
+        const response = await handlePayload(await access.readBody(req), role);
+        if (!response) {
+          res.writeHead(202);
+          res.end();
+          return;
+        }
+        res.writeHead(200, { 'content-type': 'application/json' });
+        res.end(JSON.stringify(response));
+        return;
+      }
+
+      if (req.method === 'GET' && requestUrl.pathname === '/sse') {
+        const sessionId = randomUUID();
+        res.writeHead(200, { 'content-type': 'text/event-stream', 'cache-control': 'no-cache', connection: 'keep-alive' });
+        res.write(`event: endpoint\ndata: /messages?sessionId=${sessionId}\n\n`);
+        sessions.set(sessionId, { stream: res, client });
+        const keepalive = setInterval(() => res.write(': keepalive\n\n'), SSE_KEEPALIVE_MS);
+        req.on('close', () => {
+          clearInterval(keepalive);
+          sessions.delete(sessionId);
+        });
+        return;
+      }
+
+      if (req.method === 'POST' && requestUrl.pathname === '/messages') {
+        const session = sessions.get(requestUrl.searchParams.get('sessionId') ?? '');
+        if (!session || session.client !== client) {
+          res.writeHead(404, { 'content-type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Unknown session' }));
+          return;
+        }
+        const body = await access.readBody(req);
+        res.writeHead(202);
+        res.end();
+        handlePayload(body, role).then((response) => {
+          if (response) {
+            session.stream.write(`event: message\ndata: ${JSON.stringify(response)}\n\n`);
+          }
+        }).catch((error) => {
+          log({ event: 'error', message: 'Failed to handle MCP payload', detail: error instanceof Error ? error.message : error });
+        });
+        return;
+      }
+
+      res.writeHead(404, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Not found' }));
+    } catch (error) {
+      res.writeHead(isAccessError(error) ? error.status : 500, {
+        'content-type': 'application/json',
+        ...(isAccessError(error) ? error.headers : undefined)
+      });
+      res.end(JSON.stringify({ error: error instanceof Error ? error.message : error }));
+    }
+  });
+  server.on('error', (error) => {
+    log({ event: 'error', message: 'MCP HTTP server failed', detail: error instanceof Error ? error.message : error });
+    process.exit(1);
+  });
+  server.listen(port, host, () => {
+    const { port: bound } = server.address() as AddressInfo;
+    log({ event: 'mcp', transport: 'http', url: `http://${host}:${bound}`, endpoints: ['/mcp', '/sse'], index: repo.indexUid, root: repo.root, auth: access.enabled });
+  });
+}
+
+function main() {
+  const argv = process.argv.slice(2);
+  let useHttp = false;
+  let host = process.env.RAG_MCP_HOST ?? '127.0.0.1';
+  let port = Number(process.env.RAG_MCP_PORT ?? '3334');
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (arg === '--http') {
+      useHttp = true;
+    } else if (arg === '--host') {
+      host = argv[++i] ?? host;
+    } else if (arg === '--port') {
+      port = Number.parseInt(argv[++i] ?? '', 10);
+      if (!Number.isFinite(port) || port < 0) {
+        throw new Error('Expected port number after --port');
+      }
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  if (useHttp) {
+    serveHttp(host, port);
+  } else {
+    serveStdio();
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
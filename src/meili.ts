@@ -1,18 +1,31 @@
-const meiliUrl = process.env.MEILI_URL;
-const meiliKey = process.env.MEILI_KEY;
-const indexUid = process.env.INDEX_UID;
+import { quote } from './filters.js';
+import {
+  EMBEDDER_NAME,
+  INDEX_UID,
+  type DocumentsPage,
+  type DocumentsRequest,
+  type IndexIdentity,
+  type IndexStats,
+  type SearchRequest,
+  type SearchResponse,
+  type Store
+} from './store.js';
 
-if (!meiliUrl) {
-  throw new Error('MEILI_URL is required');
-}
-if (!indexUid) {
-  throw new Error('INDEX_UID is required');
-}
+const meiliKey = process.env.MEILI_KEY;
 
-export const MEILI_URL = meiliUrl;
+export const MEILI_URL = process.env.MEILI_URL ?? '';
 export const MEILI_KEY = meiliKey ?? '';
-export const INDEX_UID = indexUid;
-export const EMBEDDER_NAME = process.env.MEILI_EMBEDDER_NAME ?? 'code';
+export { INDEX_UID };
+
+// Checked when a request is made rather than at import time, so code that only
+// reaches this module through the store (e.g. the search library with
+// RAG_STORE=local) loads without a Meilisearch configuration.
+export function meiliBaseUrl(): string {
+  if (!MEILI_URL) {
+    throw new Error('MEILI_URL is required');
+  }
+  return MEILI_URL.replace(/\/$/, '');
+}
 
 export const BASE_HEADERS: Record<string, string> = {
   'Content-Type': 'application/json'
@@ -22,10 +35,31 @@ if (meiliKey) {
 }
 
 const DEFAULT_BATCH_SIZE = Number(process.env.RAG_BATCH_SIZE ?? '64');
+const DELETE_FILTER_BATCH_SIZE = 200;
+
+export const FILTERABLE_ATTRIBUTES = [
+  'filePath',
+  'language',
+  'extension',
+  'suffixes',
+  'directory',
+  'pathSegments',
+  'symbolName',
+  'symbolNames',
+  'symbolKind',
+  'commit'
+] as const;
+export const SORTABLE_ATTRIBUTES = ['filePath', 'language', 'startLine'] as const;
+
+export const META_INDEX_UID = process.env.MEILI_META_INDEX ?? 'rag_meta';
 
-async function createIndexIfNeeded(): Promise<void> {
-  const sanitized = MEILI_URL.replace(/\/$/, '');
-  const indexUrl = `${sanitized}/indexes/${INDEX_UID}`;
+function indexUrlFor(uid: string): string {
+  return `${meiliBaseUrl()}/indexes/${uid}`;
+}
+
+async function createIndexIfNeeded(uid = INDEX_UID): Promise<void> {
+  const sanitized = meiliBaseUrl();
+  const indexUrl = indexUrlFor(uid);
   const lookup = await fetch(indexUrl, { headers: BASE_HEADERS, method: 'GET' });
   if (lookup.ok) {
     return;
@@ -37,7 +71,7 @@ async function createIndexIfNeeded(): Promise<void> {
   const createResponse = await fetch(`${sanitized}/indexes`, {
     method: 'POST',
     headers: BASE_HEADERS,
-    body: JSON.stringify({ uid: INDEX_UID, primaryKey: 'id' })
+    body: JSON.stringify({ uid, primaryKey: 'id' })
   });
   if (!createResponse.ok && createResponse.status !== 409) {
     const body = await createResponse.text();
@@ -45,9 +79,9 @@ async function createIndexIfNeeded(): Promise<void> {
   }
 }
 
-export async function ensureIndex(dimensions: number): Promise<void> {
-  await createIndexIfNeeded();
-  const indexUrl = `${MEILI_URL.replace(/\/$/, '')}/indexes/${INDEX_UID}`;
+export async function ensureIndex(dimensions: number, uid = INDEX_UID): Promise<void> {
+  await createIndexIfNeeded(uid);
+  const indexUrl = indexUrlFor(uid);
   const settingsBody = {
     embedders: {
       [EMBEDDER_NAME]: {
@@ -55,7 +89,8 @@ export async function ensureIndex(dimensions: number): Promise<void> {
         dimensions
       }
     },
-    filterableAttributes: ['filePath']
+    filterableAttributes: [...FILTERABLE_ATTRIBUTES],
+    sortableAttributes: [...SORTABLE_ATTRIBUTES]
   };
   const settingsResponse = await fetch(`${indexUrl}/settings`, {
     method: 'PATCH',
@@ -68,8 +103,64 @@ export async function ensureIndex(dimensions: number): Promise<void> {
   }
 }
 
+export async function getEmbedderDimensions(uid = INDEX_UID): Promise<number | null> {
+  const response = await fetch(`${indexUrlFor(uid)}/settings/embedders`, { headers: BASE_HEADERS });
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`Failed to fetch embedder settings: ${response.status} ${body}`);
+  }
+  const json = (await response.json()) as Record<string, { dimensions?: number }> | null;
+  return json?.[EMBEDDER_NAME]?.dimensions ?? null;
+}
+
+export async function getIndexIdentity(uid = INDEX_UID): Promise<IndexIdentity | null> {
+  const response = await fetch(`${indexUrlFor(META_INDEX_UID)}/documents/${encodeURIComponent(uid)}`, { headers: BASE_HEADERS });
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`Failed to fetch index metadata: ${response.status} ${body}`);
+  }
+  const json = (await response.json()) as Partial<IndexIdentity>;
+  if (typeof json.model !== 'string' || typeof json.dimensions !== 'number') {
+    return null;
+  }
+  return { model: json.model, dimensions: json.dimensions };
+}
+
+export async function setIndexIdentity(identity: IndexIdentity, uid = INDEX_UID): Promise<number[]> {
+  await createIndexIfNeeded(META_INDEX_UID);
+  return addDocuments([{ id: uid, ...identity }], DEFAULT_BATCH_SIZE, META_INDEX_UID);
+}
+
+export async function swapIndexes(first: string, second: string): Promise<number | null> {
+  const response = await fetch(`${meiliBaseUrl()}/swap-indexes`, {
+    method: 'POST',
+    headers: BASE_HEADERS,
+    body: JSON.stringify([{ indexes: [first, second] }])
+  });
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`Failed to swap indexes: ${response.status} ${body}`);
+  }
+  const task = (await response.json()) as { taskUid?: number };
+  return typeof task.taskUid === 'number' ? task.taskUid : null;
+}
+
+export async function deleteIndex(uid: string): Promise<void> {
+  const response = await fetch(indexUrlFor(uid), { method: 'DELETE', headers: BASE_HEADERS });
+  if (!response.ok && response.status !== 404) {
+    const body = await response.text();
+    throw new Error(`Failed to delete index: ${response.status} ${body}`);
+  }
+}
+
 export async function enableVectorStore(): Promise<void> {
-  const url = `${MEILI_URL.replace(/\/$/, '')}/experimental-features`;
+  const url = `${meiliBaseUrl()}/experimental-features`;
   const response = await fetch(url, {
     method: 'PATCH',
     headers: BASE_HEADERS,
@@ -81,11 +172,12 @@ export async function enableVectorStore(): Promise<void> {
   }
 }
 
-export async function addDocuments(docs: unknown[], batchSize = DEFAULT_BATCH_SIZE): Promise<void> {
+export async function addDocuments(docs: unknown[], batchSize = DEFAULT_BATCH_SIZE, uid = INDEX_UID): Promise<number[]> {
   if (docs.length === 0) {
-    return;
+    return [];
   }
-  const url = `${MEILI_URL.replace(/\/$/, '')}/indexes/${INDEX_UID}/documents`;
+  const url = `${indexUrlFor(uid)}/documents`;
+  const taskUids: number[] = [];
   for (let i = 0; i < docs.length; i += batchSize) {
     const batch = docs.slice(i, i + batchSize);
     const response = await fetch(url, {
@@ -97,18 +189,134 @@ export async function addDocuments(docs: unknown[], batchSize = DEFAULT_BATCH_SI
       const body = await response.text();
       throw new Error(`Failed to add documents: ${response.status} ${body}`);
     }
+    const task = (await response.json()) as { taskUid?: number };
+    if (typeof task.taskUid === 'number') {
+      taskUids.push(task.taskUid);
+    }
   }
+  return taskUids;
 }
 
-export async function deleteByFilePath(filePath: string): Promise<void> {
-  const url = `${MEILI_URL.replace(/\/$/, '')}/indexes/${INDEX_UID}/documents/delete`;
+export async function deleteByFilePath(filePath: string, uid = INDEX_UID): Promise<number | null> {
+  const url = `${indexUrlFor(uid)}/documents/delete`;
   const response = await fetch(url, {
     method: 'POST',
     headers: BASE_HEADERS,
-    body: JSON.stringify({ filter: `filePath = "${filePath.replace(/"/g, '\\"')}"` })
+    body: JSON.stringify({ filter: `filePath = ${quote(filePath)}` })
   });
-  if (!response.ok && response.status !== 404) {
+  if (response.status === 404) {
+    await response.text();
+    return null;
+  }
+  if (!response.ok) {
     const body = await response.text();
     throw new Error(`Failed to delete by file path: ${response.status} ${body}`);
   }
+  const task = (await response.json()) as { taskUid?: number };
+  return typeof task.taskUid === 'number' ? task.taskUid : null;
 }
+
+export async function deleteByFilePaths(filePaths: string[], uid = INDEX_UID): Promise<number[]> {
+  const url = `${indexUrlFor(uid)}/documents/delete`;
+  const taskUids: number[] = [];
+  for (let i = 0; i < filePaths.length; i += DELETE_FILTER_BATCH_SIZE) {
+    const batch = filePaths.slice(i, i + DELETE_FILTER_BATCH_SIZE);
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: BASE_HEADERS,
+      body: JSON.stringify({ filter: `filePath IN [${batch.map(quote).join(', ')}]` })
+    });
+    if (response.status === 404) {
+      await response.text();
+      continue;
+    }
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`Failed to delete by file paths: ${response.status} ${body}`);
+    }
+    const task = (await response.json()) as { taskUid?: number };
+    if (typeof task.taskUid === 'number') {
+      taskUids.push(task.taskUid);
+    }
+  }
+  return taskUids;
+}
+
+async function searchError(response: Response): Promise<Error> {
+  const body = await response.text();
+  const error = new Error(`Search failed: ${response.status} ${body}`);
+  let code: unknown = null;
+  try {
+    code = (JSON.parse(body) as { code?: unknown }).code;
+  } catch {
+    // non-JSON error bodies are reported as is
+  }
+  return typeof code === 'string' && code.includes('filter') ? Object.assign(error, { invalidRequest: true }) : error;
+}
+
+export async function search(uid: string, request: SearchRequest): Promise<SearchResponse> {
+  const response = await fetch(`${indexUrlFor(uid)}/search`, {
+    method: 'POST',
+    headers: BASE_HEADERS,
+    body: JSON.stringify(request)
+  });
+  if (!response.ok) {
+    throw await searchError(response);
+  }
+  return (await response.json()) as SearchResponse;
+}
+
+export async function multiSearch(queries: Array<SearchRequest & { indexUid: string }>): Promise<SearchResponse[]> {
+  const response = await fetch(`${meiliBaseUrl()}/multi-search`, {
+    method: 'POST',
+    headers: BASE_HEADERS,
+    body: JSON.stringify({ queries })
+  });
+  if (!response.ok) {
+    throw await searchError(response);
+  }
+  const json = (await response.json()) as { results: SearchResponse[] };
+  return json.results;
+}
+
+export async function stats(uid = INDEX_UID): Promise<IndexStats | null> {
+  const response = await fetch(`${indexUrlFor(uid)}/stats`, { headers: BASE_HEADERS });
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`Failed to fetch index stats: ${response.status} ${body}`);
+  }
+  return (await response.json()) as IndexStats;
+}
+
+export async function fetchDocuments(uid: string, request: DocumentsRequest): Promise<DocumentsPage> {
+  const response = await fetch(`${indexUrlFor(uid)}/documents/fetch`, {
+    method: 'POST',
+    headers: BASE_HEADERS,
+    body: JSON.stringify(request)
+  });
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`Failed to fetch documents: ${response.status} ${body}`);
+  }
+  return (await response.json()) as DocumentsPage;
+}
+
+export const meiliStore: Store = {
+  kind: 'meili',
+  ensureIndex,
+  getEmbedderDimensions,
+  getIndexIdentity,
+  setIndexIdentity,
+  swapIndexes,
+  deleteIndex,
+  addDocuments,
+  deleteByFilePath,
+  deleteByFilePaths,
+  search,
+  multiSearch,
+  stats,
+  fetchDocuments
+};
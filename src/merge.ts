@@ -0,0 +1,150 @@
+import process from 'node:process';
+
+export const MERGE_OVERFETCH = Math.max(1, Number(process.env.RAG_MERGE_OVERFETCH ?? '3'));
+
+type Hit = Record<string, unknown>;
+
+export type GroupBy = 'chunk' | 'file';
+
+export interface MergeOptions {
+  limit: number;
+  perFile?: number;
+}
+
+export interface FileGroup {
+  filePath: string;
+  repo?: string;
+  _rankingScore?: number;
+  hits: Hit[];
+}
+
+export function parseGroupBy(value?: string | null): GroupBy {
+  const normalized = (value ?? '').toLowerCase();
+  if (normalized === '' || normalized === 'chunk') {
+    return 'chunk';
+  }
+  if (normalized === 'file') {
+    return 'file';
+  }
+  throw new Error(`Unsupported groupBy: ${value}`);
+}
+
+export function parsePerFile(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const perFile = Number.parseInt(String(value), 10);
+  if (!Number.isFinite(perFile) || perFile <= 0) {
+    throw new Error('perFile must be a positive integer');
+  }
+  return perFile;
+}
+
+function scoreOf(hit: Hit): number {
+  return typeof hit._rankingScore === 'number' ? hit._rankingScore : -Infinity;
+}
+
+function fileKey(hit: Hit): string {
+  return `${hit.repo ?? ''}\u0000${hit.filePath ?? ''}`;
+}
+
+function appendLines(text: unknown, from: number, extra: unknown, extraFrom: number): unknown {
+  if (typeof text !== 'string' || typeof extra !== 'string') {
+    return text;
+  }
+  const lines = text.split('\n');
+  const extraLines = extra.split('\n');
+  const skip = from + lines.length - extraFrom;
+  return skip < extraLines.length ? [...lines, ...extraLines.slice(Math.max(0, skip))].join('\n') : text;
+}
+
+function mergePair(current: Hit, next: Hit): Hit {
+  const start = current.startLine as number;
+  const nextStart = next.startLine as number;
+  const best = scoreOf(next) > scoreOf(current) ? next : current;
+  const merged: Hit = {
+    ...best,
+    startLine: start,
+    endLine: Math.max(current.endLine as number, next.endLine as number),
+    content: appendLines(current.content, start, next.content, nextStart),
+    mergedChunks: ((current.mergedChunks as number | undefined) ?? 1) + ((next.mergedChunks as number | undefined) ?? 1)
+  };
+  const formatted = current._formatted as Hit | undefined;
+  const nextFormatted = next._formatted as Hit | undefined;
+  if (formatted && nextFormatted) {
+    merged._formatted = { ...formatted, content: appendLines(formatted.content, start, nextFormatted.content, nextStart) };
+  } else {
+    delete merged._formatted;
+  }
+  return merged;
+}
+
+export function mergeHits(hits: Hit[], options: MergeOptions): Hit[] {
+  const byFile = new Map<string, Array<{ hit: Hit; order: number }>>();
+  hits.forEach((hit, order) => {
+    const key = fileKey(hit);
+    const group = byFile.get(key) ?? [];
+    group.push({ hit, order });
+    byFile.set(key, group);
+  });
+
+  const merged: Array<{ hit: Hit; order: number }> = [];
+  for (const group of byFile.values()) {
+    const ranged = group.filter(({ hit }) => typeof hit.startLine === 'number' && typeof hit.endLine === 'number');
+    merged.push(...group.filter((entry) => !ranged.includes(entry)));
+    ranged.sort((a, b) => (a.hit.startLine as number) - (b.hit.startLine as number));
+    let current: { hit: Hit; order: number } | null = null;
+    for (const entry of ranged) {
+      if (current && (entry.hit.startLine as number) <= (current.hit.endLine as number) + 1) {
+        current = { hit: mergePair(current.hit, entry.hit), order: Math.min(current.order, entry.order) };
+      } else {
+        if (current) {
+          merged.push(current);
+        }
+        current = entry;
+      }
+    }
+    if (current) {
+      merged.push(current);
+    }
+  }
+
+  merged.sort((a, b) => scoreOf(b.hit) - scoreOf(a.hit) || a.order - b.order);
+  const perFileCounts = new Map<string, number>();
+  const results: Hit[] = [];
+  for (const { hit } of merged) {
+    if (results.length >= options.limit) {
+      break;
+    }
+    const key = fileKey(hit);
+    const count = perFileCounts.get(key) ?? 0;
+    if (options.perFile !== undefined && count >= options.perFile) {
+      continue;
+    }
+    perFileCounts.set(key, count + 1);
+    results.push(hit);
+  }
+  return results;
+}
+
+export function groupHitsByFile(hits: Hit[], limit: number): FileGroup[] {
+  const groups = new Map<string, FileGroup>();
+  for (const hit of hits) {
+    const key = fileKey(hit);
+    let group = groups.get(key);
+    if (!group) {
+      group = { filePath: String(hit.filePath ?? ''), hits: [] };
+      if (typeof hit.repo === 'string') {
+        group.repo = hit.repo;
+      }
+      groups.set(key, group);
+    }
+    group.hits.push(hit);
+    if (typeof hit._rankingScore === 'number' && hit._rankingScore > (group._rankingScore ?? -Infinity)) {
+      group._rankingScore = hit._rankingScore;
+    }
+  }
+  return [...groups.values()]
+    .sort((a, b) => (b._rankingScore ?? -Infinity) - (a._rankingScore ?? -Infinity))
+    .slice(0, limit);
+}
@@ -0,0 +1,266 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import process from 'node:process';
+
+import { quote } from './filters.js';
+import { gitResolveCommit, gitShowFile } from './git.js';
+import type { SearchRequest, SearchResponse } from './store.js';
+
+export const DEFAULT_PACK_BUDGET = Number(process.env.RAG_PACK_BUDGET ?? '8000');
+export const PACK_CANDIDATES = Number(process.env.RAG_PACK_CANDIDATES ?? '20');
+const MAX_SYMBOL_LINES = Number(process.env.RAG_PACK_MAX_SYMBOL_LINES ?? '400');
+
+type Hit = Record<string, unknown>;
+
+export type PackFormat = 'markdown' | 'xml';
+
+export interface PackEntry {
+  filePath: string;
+  repo?: string;
+  startLine: number;
+  endLine: number;
+  symbolName?: string;
+  score: number | null;
+  tokens: number;
+  expanded: boolean;
+  stale: boolean;
+  reason?: 'budget';
+}
+
+export interface PackManifest {
+  budget: number;
+  usedTokens: number;
+  format: PackFormat;
+  included: PackEntry[];
+  dropped: PackEntry[];
+}
+
+export interface ContextPack {
+  context: string;
+  manifest: PackManifest;
+}
+
+export interface PackOptions {
+  budget: number;
+  format: PackFormat;
+  readLines: (hit: Hit) => Promise<string[] | null>;
+  symbolSearch?: (hit: Hit, request: SearchRequest) => Promise<SearchResponse>;
+}
+
+interface Candidate {
+  hit: Hit;
+  filePath: string;
+  startLine: number;
+  endLine: number;
+  score: number | null;
+  expanded: boolean;
+}
+
+export function parsePackFormat(value?: unknown): PackFormat {
+  const normalized = typeof value === 'string' ? value.toLowerCase() : '';
+  if (normalized === '' || normalized === 'markdown' || normalized === 'md') {
+    return 'markdown';
+  }
+  if (normalized === 'xml') {
+    return 'xml';
+  }
+  throw new Error(`Unsupported pack format: ${String(value)}`);
+}
+
+export function parseBudget(value: unknown): number {
+  if (value === undefined || value === null || value === '') {
+    return DEFAULT_PACK_BUDGET;
+  }
+  const budget = Number.parseInt(String(value), 10);
+  if (!Number.isFinite(budget) || budget <= 0) {
+    throw new Error('budget must be a positive integer');
+  }
+  return budget;
+}
+
+// Rough BPE approximation: short words and each punctuation mark are one token, long identifiers ~4 chars per token.
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const match of text.matchAll(/[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu)) {
+    tokens += match[0].length > 4 ? Math.ceil(match[0].length / 4) : 1;
+  }
+  return tokens + Math.ceil((text.match(/\n/g)?.length ?? 0) / 2);
+}
+
+export function numberedLines(text: string, startLine: number): string {
+  const lines = text.split('\n');
+  const width = String(startLine + lines.length - 1).length;
+  return lines.map((line, offset) => `${String(startLine + offset).padStart(width)} | ${line}`).join('\n');
+}
+
+// Markdown fence that the text cannot close: one backtick longer than the
+// longest run of backticks inside it, and at least three.
+export function codeFence(text: string): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  return '`'.repeat(Math.max(3, longest + 1));
+}
+
+export function createSourceReader(rootFor: (hit: Hit) => string | null, rev?: string): (hit: Hit) => Promise<string[] | null> {
+  const files = new Map<string, Promise<string[] | null>>();
+  const commits = new Map<string, Promise<string | null>>();
+  const commitOf = (root: string, revision: string) => {
+    let commit = commits.get(root);
+    if (!commit) {
+      commit = gitResolveCommit(root, revision).catch(() => null);
+      commits.set(root, commit);
+    }
+    return commit;
+  };
+  return (hit) => {
+    const root = rootFor(hit);
+    const { filePath } = hit;
+    if (!root || typeof filePath !== 'string') {
+      return Promise.resolve(null);
+    }
+    const key = `${root}\u0000${filePath}`;
+    let promise = files.get(key);
+    if (!promise) {
+      const text = rev
+        ? commitOf(root, rev).then((commit) => (commit ? gitShowFile(root, commit, filePath) : null))
+        : fs.readFile(path.join(root, filePath), 'utf8').catch(() => null);
+      promise = text.then((value) => (value === null ? null : value.split(/\r?\n/)));
+      files.set(key, promise);
+    }
+    return promise;
+  };
+}
+
+async function symbolRange(hit: Hit, search: NonNullable<PackOptions['symbolSearch']>): Promise<{ startLine: number; endLine: number } | null> {
+  if (typeof hit.symbolName !== 'string' || !hit.symbolName || typeof hit.filePath !== 'string') {
+    return null;
+  }
+  const result = await search(hit, {
+    filter: `filePath = ${quote(hit.filePath)} AND symbolName = ${quote(hit.symbolName)}`,
+    limit: 100,
+    attributesToRetrieve: ['startLine', 'endLine']
+  });
+  const ranges = result.hits.filter((part) => typeof part.startLine === 'number' && typeof part.endLine === 'number');
+  if (ranges.length === 0) {
+    return null;
+  }
+  return {
+    startLine: Math.min(...ranges.map((part) => part.startLine as number)),
+    endLine: Math.max(...ranges.map((part) => part.endLine as number))
+  };
+}
+
+function mergeCandidates(candidates: Candidate[]): Candidate[] {
+  const merged: Candidate[] = [];
+  for (const candidate of candidates) {
+    const overlapping = merged.find((other) => other.filePath === candidate.filePath
+      && other.hit.repo === candidate.hit.repo
+      && candidate.startLine <= other.endLine + 1
+      && candidate.endLine >= other.startLine - 1);
+    if (overlapping) {
+      overlapping.startLine = Math.min(overlapping.startLine, candidate.startLine);
+      overlapping.endLine = Math.max(overlapping.endLine, candidate.endLine);
+      overlapping.expanded ||= candidate.expanded;
+    } else {
+      merged.push({ ...candidate });
+    }
+  }
+  return merged;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function cdata(text: string): string {
+  return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+function renderBlock(entry: PackEntry, text: string, format: PackFormat, language: string): string {
+  const body = numberedLines(text, entry.startLine);
+  if (format === 'xml') {
+    const attributes = [
+      `path="${escapeAttribute(entry.filePath)}"`,
+      entry.repo ? `repo="${escapeAttribute(entry.repo)}"` : '',
+      `lines="${entry.startLine}-${entry.endLine}"`,
+      entry.symbolName ? `symbol="${escapeAttribute(entry.symbolName)}"` : ''
+    ].filter(Boolean).join(' ');
+    return `<file ${attributes}>${cdata(`\n${body}\n`)}</file>`;
+  }
+  const repo = entry.repo ? `${entry.repo}:` : '';
+  const symbol = entry.symbolName ? ` — \`${entry.symbolName}\`` : '';
+  const fence = codeFence(body);
+  return `### ${repo}${entry.filePath}:${entry.startLine}-${entry.endLine}${symbol}\n${fence}${language}\n${body}\n${fence}`;
+}
+
+export async function buildContextPack(hits: Hit[], options: PackOptions): Promise<ContextPack> {
+  const candidates = await Promise.all(hits
+    .filter((hit) => typeof hit.filePath === 'string' && typeof hit.startLine === 'number' && typeof hit.endLine === 'number')
+    .map(async (hit): Promise<Candidate> => {
+      const candidate: Candidate = {
+        hit,
+        filePath: hit.filePath as string,
+        startLine: hit.startLine as number,
+        endLine: hit.endLine as number,
+        score: typeof hit._rankingScore === 'number' ? hit._rankingScore : null,
+        expanded: false
+      };
+      const range = options.symbolSearch ? await symbolRange(hit, options.symbolSearch).catch(() => null) : null;
+      if (range && range.endLine - range.startLine < MAX_SYMBOL_LINES
+        && (range.startLine < candidate.startLine || range.endLine > candidate.endLine)) {
+        candidate.startLine = Math.min(range.startLine, candidate.startLine);
+        candidate.endLine = Math.max(range.endLine, candidate.endLine);
+        candidate.expanded = true;
+      }
+      return candidate;
+    }));
+
+  const wrapperTokens = options.format === 'xml' ? estimateTokens('<context>\n</context>') : 0;
+  let usedTokens = wrapperTokens;
+  const blocks: string[] = [];
+  const included: PackEntry[] = [];
+  const dropped: PackEntry[] = [];
+  for (const candidate of mergeCandidates(candidates)) {
+    const lines = await options.readLines(candidate.hit);
+    const indexed = typeof candidate.hit.content === 'string' ? candidate.hit.content.split(/\r?\n/) : [];
+    const hitStart = candidate.hit.startLine as number;
+    const hitEnd = candidate.hit.endLine as number;
+    const stale = !lines || lines.slice(hitStart - 1, hitStart - 1 + indexed.length).join('\n') !== indexed.join('\n');
+    const render = (first: number, last: number, expanded: boolean) => {
+      const text = stale ? indexed.join('\n') : lines!.slice(first - 1, Math.min(last, lines!.length)).join('\n');
+      const startLine = stale ? hitStart : first;
+      const entry: PackEntry = {
+        filePath: candidate.filePath,
+        repo: typeof candidate.hit.repo === 'string' ? candidate.hit.repo : undefined,
+        startLine,
+        endLine: startLine + text.split('\n').length - 1,
+        symbolName: typeof candidate.hit.symbolName === 'string' ? candidate.hit.symbolName : undefined,
+        score: candidate.score,
+        tokens: 0,
+        expanded,
+        stale
+      };
+      const block = renderBlock(entry, text, options.format, typeof candidate.hit.language === 'string' ? candidate.hit.language : '');
+      entry.tokens = estimateTokens(block) + 1;
+      return { entry, block };
+    };
+    let packed = render(candidate.startLine, candidate.endLine, candidate.expanded && !stale);
+    if (usedTokens + packed.entry.tokens > options.budget && candidate.expanded && !stale) {
+      packed = render(hitStart, hitEnd, false);
+    }
+    if (usedTokens + packed.entry.tokens > options.budget) {
+      dropped.push({ ...packed.entry, reason: 'budget' });
+      continue;
+    }
+    usedTokens += packed.entry.tokens;
+    blocks.push(packed.block);
+    included.push(packed.entry);
+  }
+
+  const context = options.format === 'xml'
+    ? `<context>\n${blocks.join('\n')}\n</context>`
+    : blocks.join('\n\n');
+  return {
+    context,
+    manifest: { budget: options.budget, usedTokens, format: options.format, included, dropped }
+  };
+}
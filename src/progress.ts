@@ -0,0 +1,254 @@
+import process from 'node:process';
+import { randomUUID } from 'node:crypto';
+
+const PROGRESS_INTERVAL_MS = Number(process.env.RAG_PROGRESS_INTERVAL_MS ?? '250');
+
+export type ProgressKind = 'initial' | 'full' | 'rebuild' | 'refresh' | 'sync' | 'revision';
+
+export type ProgressPhase = 'discover' | 'index' | 'remove' | 'settle' | 'complete' | 'failed';
+
+export interface ProgressSnapshot {
+  runId: string;
+  repo: string;
+  index: string;
+  kind: ProgressKind;
+  rev?: string;
+  phase: ProgressPhase;
+  startedAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+  filesDiscovered: number;
+  filesProcessed: number;
+  filesIndexed: number;
+  filesSkipped: number;
+  filesFailed: number;
+  filesRemoved: number;
+  chunksEmbedded: number;
+  embeddingsPerSecond: number;
+  etaSeconds: number | null;
+  currentFile: string | null;
+  error: string | null;
+}
+
+export type ProgressEventType = 'start' | 'progress' | 'complete' | 'failed';
+
+export interface ProgressEvent {
+  type: ProgressEventType;
+  progress: ProgressSnapshot;
+}
+
+export type ProgressListener = (event: ProgressEvent) => void;
+
+export interface ProgressBus {
+  subscribe: (listener: ProgressListener) => () => void;
+  publish: (event: ProgressEvent) => void;
+  snapshots: () => ProgressSnapshot[];
+}
+
+export type FileOutcome = 'indexed' | 'skipped' | 'failed';
+
+export interface ProgressTracker {
+  discovered: (count: number) => void;
+  file: (file: string) => void;
+  processed: (file: string, outcome: FileOutcome, chunks?: number) => void;
+  removed: (count?: number) => void;
+  phase: (phase: ProgressPhase) => void;
+  complete: () => void;
+  fail: (error: unknown) => void;
+  snapshot: () => ProgressSnapshot;
+}
+
+export function createProgressBus(): ProgressBus {
+  const listeners = new Set<ProgressListener>();
+  const latest = new Map<string, ProgressSnapshot>();
+  return {
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    publish: (event) => {
+      const { repo, rev } = event.progress;
+      latest.set(rev ? `${repo}@${rev}` : repo, event.progress);
+      for (const listener of listeners) {
+        try {
+          listener(event);
+        } catch {
+          // a broken subscriber must not stop indexing
+        }
+      }
+    },
+    snapshots: () => [...latest.values()]
+  };
+}
+
+export function createProgressTracker(
+  bus: ProgressBus,
+  run: { repo: string; index: string; kind: ProgressKind; rev?: string }
+): ProgressTracker {
+  const startedMs = Date.now();
+  let indexStartedMs: number | null = null;
+  let lastPublishedMs = 0;
+  const state: ProgressSnapshot = {
+    runId: randomUUID(),
+    ...run,
+    phase: 'discover',
+    startedAt: new Date(startedMs).toISOString(),
+    updatedAt: new Date(startedMs).toISOString(),
+    finishedAt: null,
+    filesDiscovered: 0,
+    filesProcessed: 0,
+    filesIndexed: 0,
+    filesSkipped: 0,
+    filesFailed: 0,
+    filesRemoved: 0,
+    chunksEmbedded: 0,
+    embeddingsPerSecond: 0,
+    etaSeconds: null,
+    currentFile: null,
+    error: null
+  };
+
+  const snapshot = (): ProgressSnapshot => {
+    const now = Date.now();
+    const elapsed = indexStartedMs === null ? 0 : (now - indexStartedMs) / 1000;
+    const remaining = Math.max(0, state.filesDiscovered - state.filesProcessed);
+    state.updatedAt = new Date(now).toISOString();
+    state.embeddingsPerSecond = elapsed > 0 ? Number((state.chunksEmbedded / elapsed).toFixed(1)) : 0;
+    state.etaSeconds = state.phase === 'index' && state.filesProcessed > 0
+      ? Math.round((elapsed / state.filesProcessed) * remaining)
+      : state.finishedAt ? 0 : null;
+    return { ...state };
+  };
+
+  const publish = (type: ProgressEventType, force = false) => {
+    const now = Date.now();
+    if (!force && now - lastPublishedMs < PROGRESS_INTERVAL_MS) {
+      return;
+    }
+    lastPublishedMs = now;
+    bus.publish({ type, progress: snapshot() });
+  };
+
+  const setPhase = (phase: ProgressPhase) => {
+    if (phase === 'index' && indexStartedMs === null) {
+      indexStartedMs = Date.now();
+    }
+    if (state.phase !== phase) {
+      state.phase = phase;
+      state.currentFile = null;
+      publish('progress', true);
+    }
+  };
+
+  publish('start', true);
+  return {
+    discovered: (count) => {
+      state.filesDiscovered += count;
+      publish('progress');
+    },
+    file: (file) => {
+      setPhase('index');
+      state.currentFile = file;
+      publish('progress');
+    },
+    processed: (_file, outcome, chunks = 0) => {
+      setPhase('index');
+      state.filesProcessed += 1;
+      if (outcome === 'indexed') {
+        state.filesIndexed += 1;
+        state.chunksEmbedded += chunks;
+      } else if (outcome === 'skipped') {
+        state.filesSkipped += 1;
+      } else {
+        state.filesFailed += 1;
+      }
+      publish('progress');
+    },
+    removed: (count = 1) => {
+      setPhase('remove');
+      state.filesRemoved += count;
+      publish('progress');
+    },
+    phase: setPhase,
+    complete: () => {
+      state.phase = 'complete';
+      state.currentFile = null;
+      state.finishedAt = new Date().toISOString();
+      publish('complete', true);
+    },
+    fail: (error) => {
+      state.phase = 'failed';
+      state.currentFile = null;
+      state.error = error instanceof Error ? error.message : String(error);
+      state.finishedAt = new Date().toISOString();
+      publish('failed', true);
+    },
+    snapshot
+  };
+}
+
+export interface ProgressBar {
+  update: ProgressListener;
+  clear: () => void;
+  redraw: () => void;
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  return minutes < 60 ? `${minutes}m${String(seconds % 60).padStart(2, '0')}s` : `${Math.floor(minutes / 60)}h${String(minutes % 60).padStart(2, '0')}m`;
+}
+
+export function renderProgress(progress: ProgressSnapshot, columns = 80): string {
+  const total = progress.filesDiscovered;
+  const ratio = total > 0 ? Math.min(1, progress.filesProcessed / total) : 0;
+  const width = 20;
+  const filled = Math.round(ratio * width);
+  const parts = [
+    `[${'#'.repeat(filled)}${'-'.repeat(width - filled)}] ${String(Math.floor(ratio * 100)).padStart(3)}%`,
+    `${progress.filesProcessed}/${total} files`,
+    `${progress.chunksEmbedded} chunks`,
+    `${progress.embeddingsPerSecond} emb/s`
+  ];
+  if (progress.filesFailed > 0) {
+    parts.push(`${progress.filesFailed} failed`);
+  }
+  if (progress.etaSeconds !== null && progress.phase === 'index') {
+    parts.push(`ETA ${formatDuration(progress.etaSeconds)}`);
+  }
+  if (progress.phase !== 'index') {
+    parts.push(progress.phase);
+  }
+  let line = parts.join(' · ');
+  if (progress.currentFile) {
+    line += ` · ${progress.currentFile}`;
+  }
+  return line.length > columns - 1 ? `${line.slice(0, columns - 2)}…` : line;
+}
+
+export function createProgressBar(stream: NodeJS.WriteStream): ProgressBar {
+  let line = '';
+  const write = () => {
+    if (line) {
+      stream.write(`\r\x1b[2K${line}`);
+    }
+  };
+  const clear = () => {
+    if (line) {
+      stream.write('\r\x1b[2K');
+    }
+  };
+  return {
+    update: (event) => {
+      clear();
+      line = event.type === 'complete' || event.type === 'failed' ? '' : renderProgress(event.progress, stream.columns ?? 80);
+      write();
+    },
+    clear,
+    redraw: write
+  };
+}
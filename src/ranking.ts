@@ -0,0 +1,57 @@
+import process from 'node:process';
+
+export const DEFAULT_SEMANTIC_RATIO = Number(process.env.RAG_SEMANTIC_RATIO ?? '0.5');
+export const RRF_K = Number(process.env.RAG_RRF_K ?? '60');
+
+type Hit = Record<string, unknown>;
+
+export function parseSemanticRatio(value: unknown): number {
+  if (value === undefined || value === null || value === '') {
+    return DEFAULT_SEMANTIC_RATIO;
+  }
+  const ratio = Number(value);
+  if (!Number.isFinite(ratio) || ratio < 0 || ratio > 1) {
+    throw new Error('semanticRatio must be a number between 0 and 1');
+  }
+  return ratio;
+}
+
+function hitKey(hit: Hit): string {
+  return `${hit.repo ?? ''}\u0000${hit.id ?? `${hit.filePath}:${hit.startLine}-${hit.endLine}`}`;
+}
+
+export function fuseReciprocalRank(signals: Record<string, Hit[]>, limit: number, k = RRF_K): Hit[] {
+  const names = Object.keys(signals);
+  const fused = new Map<string, { hit: Hit; score: number; ranks: Record<string, number | null>; scores: Record<string, number | null> }>();
+  for (const name of names) {
+    signals[name].forEach((hit, index) => {
+      const key = hitKey(hit);
+      let entry = fused.get(key);
+      if (!entry) {
+        entry = {
+          hit,
+          score: 0,
+          ranks: Object.fromEntries(names.map((signal) => [signal, null])),
+          scores: Object.fromEntries(names.map((signal) => [signal, null]))
+        };
+        fused.set(key, entry);
+      } else if (hit._formatted && !entry.hit._formatted) {
+        entry.hit = { ...entry.hit, _formatted: hit._formatted };
+      }
+      entry.ranks[name] = index + 1;
+      entry.scores[name] = typeof hit._rankingScore === 'number' ? hit._rankingScore : null;
+      entry.score += 1 / (k + index + 1);
+    });
+  }
+  const best = names.length / (k + 1);
+  return [...fused.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ hit, score, ranks, scores }) => ({
+      ...hit,
+      _rankingScore: score / best,
+      rrfScore: score,
+      ranks,
+      signalScores: scores
+    }));
+}
@@ -0,0 +1,103 @@
+import process from 'node:process';
+
+export const RERANK_MODEL = process.env.RAG_RERANK_MODEL ?? 'Xenova/ms-marco-MiniLM-L-6-v2';
+export const RERANK_CANDIDATES = Math.max(1, Number(process.env.RAG_RERANK_CANDIDATES ?? '4'));
+export const RERANK_DEFAULT = ['1', 'true', 'on'].includes((process.env.RAG_RERANK ?? '').toLowerCase());
+const RERANK_BATCH_SIZE = Math.max(1, Number(process.env.RAG_RERANK_BATCH_SIZE ?? '16'));
+const RERANK_MAX_CHARS = Number(process.env.RAG_RERANK_MAX_CHARS ?? '4000');
+
+type Hit = Record<string, unknown>;
+
+interface LogitsTensor {
+  sigmoid: () => { tolist: () => number[][] };
+}
+
+type CrossEncoderTokenizer = (
+  texts: string[],
+  options: { text_pair: string[]; padding: boolean; truncation: boolean }
+) => Record<string, unknown>;
+
+type CrossEncoderModel = (inputs: Record<string, unknown>) => Promise<{ logits: LogitsTensor }>;
+
+interface CrossEncoder {
+  tokenizer: CrossEncoderTokenizer;
+  model: CrossEncoderModel;
+}
+
+export type PairScorer = (query: string, passages: string[]) => Promise<number[]>;
+
+let crossEncoderPromise: Promise<CrossEncoder> | null = null;
+
+export function parseRerank(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') {
+    return RERANK_DEFAULT;
+  }
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  const normalized = String(value).toLowerCase();
+  if (['1', 'true', 'on', 'yes'].includes(normalized)) {
+    return true;
+  }
+  if (['0', 'false', 'off', 'no'].includes(normalized)) {
+    return false;
+  }
+  throw new Error('rerank must be true or false');
+}
+
+function getCrossEncoder(): Promise<CrossEncoder> {
+  if (!crossEncoderPromise) {
+    crossEncoderPromise = import('@huggingface/transformers').then(async (mod) => {
+      const [tokenizer, model] = await Promise.all([
+        mod.AutoTokenizer.from_pretrained(RERANK_MODEL),
+        mod.AutoModelForSequenceClassification.from_pretrained(RERANK_MODEL)
+      ]);
+      return {
+        tokenizer: tokenizer as unknown as CrossEncoderTokenizer,
+        model: model as unknown as CrossEncoderModel
+      };
+    });
+    crossEncoderPromise.catch(() => {
+      crossEncoderPromise = null;
+    });
+  }
+  return crossEncoderPromise;
+}
+
+function passageFor(hit: Hit): string {
+  const content = typeof hit.content === 'string' ? hit.content : '';
+  const header = [hit.filePath, hit.symbolName].filter((part) => typeof part === 'string' && part).join(' ');
+  const text = header ? `${header}\n${content}` : content;
+  return text.length > RERANK_MAX_CHARS ? text.slice(0, RERANK_MAX_CHARS) : text;
+}
+
+export async function scorePairs(query: string, passages: string[]): Promise<number[]> {
+  const { tokenizer, model } = await getCrossEncoder();
+  const scores: number[] = [];
+  for (let i = 0; i < passages.length; i += RERANK_BATCH_SIZE) {
+    const batch = passages.slice(i, i + RERANK_BATCH_SIZE);
+    const inputs = tokenizer(batch.map(() => query), { text_pair: batch, padding: true, truncation: true });
+    const { logits } = await model(inputs);
+    scores.push(...logits.sigmoid().tolist().map((row) => row[0]));
+  }
+  return scores;
+}
+
+export async function rerankHits(query: string, hits: Hit[], limit: number, score: PairScorer = scorePairs): Promise<Hit[]> {
+  if (!query.trim()) {
+    throw new Error('rerank requires query text');
+  }
+  if (hits.length === 0) {
+    return hits;
+  }
+  const scores = await score(query, hits.map(passageFor));
+  return hits
+    .map((hit, index) => ({
+      ...hit,
+      retrievalScore: typeof hit._rankingScore === 'number' ? hit._rankingScore : null,
+      rerankScore: scores[index],
+      _rankingScore: scores[index]
+    }))
+    .sort((a, b) => b.rerankScore - a.rerankScore)
+    .slice(0, limit);
+}
@@ -1,28 +1,36 @@
 import process from 'node:process';
 
-import { embed } from './embed.js';
-import { BASE_HEADERS, INDEX_UID, MEILI_URL } from './meili.js';
+import type { FormattedHit } from './format.js';
+import { parseGroupBy, parsePerFile, type GroupBy } from './merge.js';
+import { parseBudget, parsePackFormat, type PackFormat } from './pack.js';
+import { parseSemanticRatio } from './ranking.js';
+import { parseContext, parseLimit, parseMode, searchCode, type SearchMode, type SearchOptions } from './searchcore.js';
+import { parseLocation, type SourceLocation } from './similar.js';
 
-type SearchMode = 'vector' | 'keyword' | 'hybrid';
-
-function parseMode(value?: string | null): SearchMode {
-  const normalized = (value ?? '').toLowerCase();
-  if (normalized === 'keyword' || normalized === 'bm25') {
-    return 'keyword';
-  }
-  if (normalized === 'hybrid') {
-    return 'hybrid';
-  }
-  if (normalized === '' || normalized === 'vector') {
-    return 'vector';
-  }
-  throw new Error(`Unsupported mode: ${value}`);
+interface SearchArgs {
+  options: SearchOptions;
+  json: boolean;
 }
 
-function parseArgs(argv: string[]): { query: string; limit: number; json: boolean; mode: SearchMode } {
-  let limit = Number(process.env.RAG_SEARCH_LIMIT ?? '8');
+function parseArgs(argv: string[]): SearchArgs {
+  let limit: number | undefined;
   let json = false;
+  let includeContent = false;
   let mode = parseMode(process.env.RAG_SEARCH_MODE ?? 'vector');
+  const paths: string[] = [];
+  const languages: string[] = [];
+  const excludes: string[] = [];
+  let filter: string | undefined;
+  let rev: string | undefined;
+  let context: number | undefined;
+  let perFile: number | undefined;
+  let groupBy: GroupBy = 'chunk';
+  let semanticRatio: number | undefined;
+  let rerank: boolean | undefined;
+  let like: SourceLocation | undefined;
+  let pack = false;
+  let budget: number | undefined;
+  let packFormat: PackFormat = 'markdown';
   const words: string[] = [];
 
   for (let i = 0; i < argv.length; i += 1) {
@@ -32,16 +40,17 @@ function parseArgs(argv: string[]): { query: string; limit: number; json: boolea
       if (!next) {
         throw new Error('Expected number after --limit');
       }
-      limit = Number.parseInt(next, 10);
-      if (!Number.isFinite(limit) || limit <= 0) {
-        throw new Error('Limit must be a positive integer');
-      }
+      limit = parseLimit(next);
       continue;
     }
     if (arg === '--json') {
       json = true;
       continue;
     }
+    if (arg === '--include-content') {
+      includeContent = true;
+      continue;
+    }
     if (arg === '--mode') {
       const next = argv[++i];
       if (!next) {
@@ -50,68 +59,188 @@ function parseArgs(argv: string[]): { query: string; limit: number; json: boolea
       mode = parseMode(next);
       continue;
     }
+    if (arg === '--rev') {
+      const next = argv[++i];
+      if (!next) {
+        throw new Error('Expected git revision after --rev');
+      }
+      rev = next;
+      continue;
+    }
+    if (arg === '--semantic-ratio') {
+      const next = argv[++i];
+      if (!next) {
+        throw new Error('Expected number after --semantic-ratio');
+      }
+      semanticRatio = parseSemanticRatio(next);
+      continue;
+    }
+    if (arg === '--pack') {
+      pack = true;
+      continue;
+    }
+    if (arg === '--budget') {
+      const next = argv[++i];
+      if (!next) {
+        throw new Error('Expected token count after --budget');
+      }
+      budget = parseBudget(next);
+      pack = true;
+      continue;
+    }
+    if (arg === '--pack-format') {
+      packFormat = parsePackFormat(argv[++i]);
+      pack = true;
+      continue;
+    }
+    if (arg === '--like') {
+      const next = argv[++i];
+      if (!next) {
+        throw new Error('Expected file location after --like (e.g. src/x.ts:10-40)');
+      }
+      like = parseLocation(next);
+      continue;
+    }
+    if (arg === '--rerank' || arg === '--no-rerank') {
+      rerank = arg === '--rerank';
+      continue;
+    }
+    if (arg === '--per-file') {
+      perFile = parsePerFile(argv[++i]);
+      if (perFile === undefined) {
+        throw new Error('Expected number after --per-file');
+      }
+      continue;
+    }
+    if (arg === '--group-by') {
+      groupBy = parseGroupBy(argv[++i] ?? 'file');
+      continue;
+    }
+    if (arg === '--context' || arg === '-C') {
+      const next = argv[++i];
+      if (!next) {
+        throw new Error('Expected number after --context');
+      }
+      context = parseContext(next);
+      continue;
+    }
+    if (arg === '--path' || arg === '--lang' || arg === '--exclude' || arg === '--filter') {
+      const next = argv[++i];
+      if (!next) {
+        throw new Error(`Expected value after ${arg}`);
+      }
+      if (arg === '--path') {
+        paths.push(next);
+      } else if (arg === '--lang') {
+        languages.push(next);
+      } else if (arg === '--exclude') {
+        excludes.push(next);
+      } else {
+        filter = next;
+      }
+      continue;
+    }
     words.push(arg);
   }
 
   const query = words.join(' ').trim();
-  if (!query) {
+  if (!query && !like) {
     throw new Error('Query text is required. Example: npm run search -- "init database"');
   }
 
-  return { query, limit, json, mode };
+  return {
+    options: {
+      query,
+      like,
+      mode,
+      limit,
+      paths,
+      languages,
+      excludes,
+      filter,
+      semanticRatio,
+      rerank,
+      rev,
+      context,
+      perFile,
+      groupBy,
+      includeContent,
+      pack: pack ? { budget, format: packFormat } : undefined
+    },
+    json
+  };
 }
 
-async function search(query: string, limit: number, mode: SearchMode) {
-  const body: Record<string, unknown> = { limit, showRankingScore: true };
+const ANSI_HIGHLIGHT = '\x1b[1;33m';
+const ANSI_DIM = '\x1b[2m';
+const ANSI_RESET = '\x1b[0m';
 
-  if (mode === 'keyword' || mode === 'hybrid') {
-    body.q = query;
-  }
+function renderSnippet(formatted: FormattedHit, color: boolean): string {
+  const width = String(formatted.snippet.endLine).length;
+  return formatted.snippet.text.split('\n').map((line, offset) => {
+    const lineNumber = formatted.snippet.startLine + offset;
+    let text = line;
+    if (color) {
+      const ranges = formatted.highlights.filter((highlight) => highlight.line === lineNumber).sort((a, b) => b.start - a.start);
+      for (const range of ranges) {
+        text = `${text.slice(0, range.start)}${ANSI_HIGHLIGHT}${text.slice(range.start, range.end)}${ANSI_RESET}${text.slice(range.end)}`;
+      }
+    }
+    const gutter = `${String(lineNumber).padStart(width)} │`;
+    return `  ${color ? `${ANSI_DIM}${gutter}${ANSI_RESET}` : gutter} ${text}`;
+  }).join('\n');
+}
 
-  if (mode === 'vector' || mode === 'hybrid') {
-    const vector = (await embed(query)) as number[];
-    body.vector = vector;
+function formatScore(rawScore: unknown, mode: SearchMode): string {
+  if (typeof rawScore !== 'number' || !Number.isFinite(rawScore)) {
+    return '';
   }
-
-  const url = `${MEILI_URL.replace(/\/$/, '')}/indexes/${INDEX_UID}/search`;
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: BASE_HEADERS,
-    body: JSON.stringify(body)
-  });
-  if (!response.ok) {
-    const bodyText = await response.text();
-    throw new Error(`Search failed: ${response.status} ${bodyText}`);
+  if (mode === 'keyword') {
+    return ` (score=${rawScore.toFixed(4)})`;
   }
-  return response.json();
+  return ` ${(Math.max(0, Math.min(1, rawScore)) * 100).toFixed(1)}%`;
 }
 
 async function main() {
-  const { query, limit, json, mode } = parseArgs(process.argv.slice(2));
-  const result = await search(query, limit, mode);
+  const { options, json } = parseArgs(process.argv.slice(2));
+  const result = await searchCode(options);
   if (json) {
     console.log(JSON.stringify(result, null, 2));
     return;
   }
-  if (!Array.isArray(result.hits)) {
+  if (result.manifest) {
+    console.log(result.context);
+    const { manifest } = result;
+    console.error(`Packed ${manifest.included.length} fragments (~${manifest.usedTokens}/${manifest.budget} tokens), dropped ${manifest.dropped.length}.`);
+    return;
+  }
+  if (!result.hits?.length && !result.files?.length) {
     console.log('No hits.');
     return;
   }
-  for (const hit of result.hits) {
-    const path = hit.filePath ?? hit.path ?? 'unknown';
-    const start = hit.startLine ?? hit.start ?? '?';
-    const end = hit.endLine ?? hit.end ?? '?';
-    const rawScore = typeof hit._rankingScore === 'number' ? hit._rankingScore : hit._score;
-    let scoreText = '';
-    if (typeof rawScore === 'number' && Number.isFinite(rawScore)) {
-      if (mode === 'keyword') {
-        scoreText = ` (score=${rawScore.toFixed(4)})`;
-      } else {
-        const pct = (Math.max(0, Math.min(1, rawScore)) * 100).toFixed(1);
-        scoreText = ` ${pct}%`;
+  const color = Boolean(process.stdout.isTTY) && !process.env.NO_COLOR;
+  const scoreMode = result.rerankModel ? 'vector' : result.mode;
+  const printHit = (hit: Record<string, unknown> & FormattedHit, prefix: string) => {
+    const staleText = hit.stale ? ' [stale]' : '';
+    const ranks = hit.ranks as Record<string, number | null> | undefined;
+    const ranksText = ranks
+      ? ` [${Object.entries(ranks).map(([signal, rank]) => `${signal} ${rank === null ? '-' : `#${rank}`}`).join(', ')}]`
+      : '';
+    const retrievalText = typeof hit.retrievalScore === 'number' ? ` (retrieval=${hit.retrievalScore.toFixed(4)})` : '';
+    console.log(`${prefix}${hit.startLine ?? '?'}-${hit.endLine ?? '?'}${formatScore(hit._rankingScore ?? hit._score, scoreMode)}${retrievalText}${ranksText}${staleText}`);
+    console.log(renderSnippet(hit, color));
+  };
+  if (result.files) {
+    for (const group of result.files) {
+      console.log(`${group.filePath}${formatScore(group._rankingScore, scoreMode)} (${group.hits.length} ${group.hits.length === 1 ? 'match' : 'matches'})`);
+      for (const hit of group.hits) {
+        printHit(hit, '  lines ');
       }
     }
-    console.log(`${path}:${start}-${end}${scoreText}`);
+    return;
+  }
+  for (const hit of result.hits ?? []) {
+    printHit(hit, `${hit.filePath ?? hit.path ?? 'unknown'}:`);
   }
 }
 
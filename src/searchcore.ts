@@ -0,0 +1,365 @@
+import path from 'node:path';
+import process from 'node:process';
+
+import { buildFilter } from './filters.js';
+import { DEFAULT_CONTEXT_LINES, formatHits, highlightParams, type FormattedHit } from './format.js';
+import { MERGE_OVERFETCH, groupHitsByFile, mergeHits, parseGroupBy, parsePerFile, type GroupBy } from './merge.js';
+import { PACK_CANDIDATES, buildContextPack, createSourceReader, parseBudget, parsePackFormat, type PackFormat, type PackManifest } from './pack.js';
+import { fuseReciprocalRank, parseSemanticRatio } from './ranking.js';
+import { RERANK_CANDIDATES, RERANK_MODEL, parseRerank, rerankHits } from './rerank.js';
+import { excludeRegion, readRegion, type SourceLocation } from './similar.js';
+import type { SearchRequest, SearchResponse } from './store.js';
+
+export const DEFAULT_SEARCH_LIMIT = Number(process.env.RAG_SEARCH_LIMIT ?? '8');
+export const MAX_SEARCH_LIMIT = Number(process.env.RAG_MAX_SEARCH_LIMIT ?? '100');
+
+export type SearchMode = 'vector' | 'keyword' | 'hybrid' | 'rrf';
+
+type Hit = Record<string, unknown>;
+
+export type SearchHit = Hit & FormattedHit;
+
+export interface SearchTarget {
+  name?: string;
+  index: string;
+  root: string;
+}
+
+export interface SearchOptions {
+  query?: string;
+  vector?: number[];
+  like?: SourceLocation;
+  mode?: SearchMode;
+  limit?: number;
+  paths?: string[];
+  languages?: string[];
+  excludes?: string[];
+  filter?: string;
+  semanticRatio?: number;
+  rerank?: boolean;
+  rev?: string;
+  context?: number;
+  perFile?: number;
+  groupBy?: GroupBy;
+  includeContent?: boolean;
+  pack?: { budget?: number; format?: PackFormat };
+  targets?: SearchTarget[];
+}
+
+export interface SearchFileGroup {
+  filePath: string;
+  repo?: string;
+  _rankingScore?: number;
+  hits: SearchHit[];
+}
+
+export interface SearchSource {
+  repo?: string;
+  filePath: string;
+  startLine: number;
+  endLine: number;
+}
+
+export interface SearchResult {
+  query: string;
+  mode: SearchMode;
+  limit: number;
+  processingTimeMs: number;
+  estimatedTotalHits?: number;
+  repos?: string[];
+  source?: SearchSource;
+  rerankModel?: string;
+  hits?: SearchHit[];
+  files?: SearchFileGroup[];
+  context?: string;
+  manifest?: PackManifest;
+}
+
+interface ResolvedSearch {
+  query: string;
+  vector?: number[];
+  like?: SourceLocation;
+  mode: SearchMode;
+  limit: number;
+  filter?: string;
+  semanticRatio: number;
+  rerank: boolean;
+  rev?: string;
+  context: number;
+  perFile?: number;
+  groupBy: GroupBy;
+  includeContent: boolean;
+  pack?: { budget: number; format: PackFormat };
+}
+
+interface Retrieved {
+  hits: Hit[];
+  processingTimeMs: number;
+  estimatedTotalHits?: number;
+}
+
+function invalidRequest(error: unknown): Error {
+  return Object.assign(error instanceof Error ? error : new Error(String(error)), { invalidRequest: true });
+}
+
+export function isInvalidRequest(error: unknown): boolean {
+  return error instanceof Error && (error as { invalidRequest?: boolean }).invalidRequest === true;
+}
+
+export function parseMode(value?: unknown): SearchMode {
+  if (value === undefined || value === null) {
+    return 'vector';
+  }
+  const normalized = String(value).toLowerCase();
+  if (normalized === 'keyword' || normalized === 'bm25') {
+    return 'keyword';
+  }
+  if (normalized === 'hybrid') {
+    return 'hybrid';
+  }
+  if (normalized === 'rrf') {
+    return 'rrf';
+  }
+  if (normalized === '' || normalized === 'vector') {
+    return 'vector';
+  }
+  throw new Error(`Unsupported mode: ${String(value)}`);
+}
+
+export function parseLimit(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const limit = Number.parseInt(String(value), 10);
+  if (!Number.isFinite(limit) || limit <= 0) {
+    throw new Error('limit must be a positive integer');
+  }
+  if (limit > MAX_SEARCH_LIMIT) {
+    throw new Error(`limit must be at most ${MAX_SEARCH_LIMIT}`);
+  }
+  return limit;
+}
+
+// Revisions end up as git arguments, so one that looks like an option is never valid.
+export function parseRev(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new Error('rev must be a string');
+  }
+  if (value.startsWith('-')) {
+    throw new Error('rev must not start with "-"');
+  }
+  return value;
+}
+
+export function parseContext(value: unknown): number {
+  if (value === undefined || value === null || value === '') {
+    return DEFAULT_CONTEXT_LINES;
+  }
+  const context = Number.parseInt(String(value), 10);
+  if (!Number.isFinite(context) || context < 0) {
+    throw new Error('context must be a non-negative integer');
+  }
+  return context;
+}
+
+export function parseIncludeContent(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') {
+    return false;
+  }
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  const normalized = String(value).toLowerCase();
+  if (['1', 'true', 'on', 'yes'].includes(normalized)) {
+    return true;
+  }
+  if (['0', 'false', 'off', 'no'].includes(normalized)) {
+    return false;
+  }
+  throw new Error('includeContent must be true or false');
+}
+
+export function resolveSearchOptions(options: SearchOptions): ResolvedSearch {
+  const query = (options.query ?? '').trim();
+  const rerank = options.like && options.rerank === undefined ? false : parseRerank(options.rerank);
+  let mode = parseMode(options.mode);
+  if (options.like) {
+    if (query || options.vector) {
+      throw new Error('Pass either query text or like, not both');
+    }
+    if (rerank) {
+      throw new Error('rerank requires query text and cannot be combined with like');
+    }
+    mode = 'vector';
+  } else {
+    if (mode !== 'vector' && !query) {
+      throw new Error(`query is required for ${mode} search`);
+    }
+    if (mode !== 'keyword' && !query && !options.vector) {
+      throw new Error(`query or vector is required for ${mode} search`);
+    }
+    if (rerank && !query) {
+      throw new Error('rerank requires query text');
+    }
+  }
+  if (options.vector && (!Array.isArray(options.vector) || options.vector.some((value) => typeof value !== 'number'))) {
+    throw new Error('vector must be an array of numbers');
+  }
+  if (options.targets && options.targets.length === 0) {
+    throw new Error('At least one search target is required');
+  }
+  const pack = options.pack
+    ? { budget: parseBudget(options.pack.budget), format: parsePackFormat(options.pack.format) }
+    : undefined;
+  return {
+    query,
+    vector: options.vector,
+    like: options.like,
+    mode,
+    limit: parseLimit(options.limit) ?? (pack ? PACK_CANDIDATES : DEFAULT_SEARCH_LIMIT),
+    filter: buildFilter({ paths: options.paths, languages: options.languages, excludes: options.excludes, filter: options.filter }),
+    semanticRatio: parseSemanticRatio(options.semanticRatio),
+    rerank,
+    rev: parseRev(options.rev),
+    context: parseContext(options.context),
+    perFile: parsePerFile(options.perFile),
+    groupBy: parseGroupBy(options.groupBy),
+    includeContent: parseIncludeContent(options.includeContent),
+    pack
+  };
+}
+
+export function mergeHitsByScore(results: Array<{ repo: string; hits: Hit[] }>, limit: number): Hit[] {
+  const score = (hit: Hit) => (typeof hit._rankingScore === 'number' ? hit._rankingScore : 0);
+  return results
+    .flatMap(({ repo, hits }) => hits.map((hit) => ({ ...hit, repo })))
+    .sort((a, b) => score(b) - score(a))
+    .slice(0, limit);
+}
+
+export async function searchCode(options: SearchOptions): Promise<SearchResult> {
+  let resolved: ResolvedSearch;
+  try {
+    resolved = resolveSearchOptions(options);
+  } catch (error) {
+    throw invalidRequest(error);
+  }
+  const store = await import('./store.js');
+  const targets = options.targets ?? [{ index: store.INDEX_UID, root: path.resolve(process.env.REPO_ROOT ?? '.') }];
+  const [primary] = targets;
+  const indexOf = (target: SearchTarget) => (resolved.rev ? store.revisionIndexUid(resolved.rev, target.index) : target.index);
+  const targetOf = (hit: Hit) => targets.find((target) => target.name !== undefined && target.name === hit.repo) ?? primary;
+
+  const region = resolved.like
+    ? await readRegion(primary.root, resolved.like, resolved.rev).catch((error) => {
+      throw invalidRequest(error);
+    })
+    : undefined;
+  const candidates = resolved.limit * MERGE_OVERFETCH;
+  const request: SearchRequest = { limit: resolved.rerank ? candidates * RERANK_CANDIDATES : candidates, showRankingScore: true };
+  if (resolved.filter) {
+    request.filter = resolved.filter;
+  }
+  if (resolved.mode !== 'vector') {
+    request.q = resolved.query;
+    Object.assign(request, highlightParams());
+  }
+  if (resolved.mode !== 'keyword') {
+    if (resolved.vector) {
+      request.vector = resolved.vector;
+    } else {
+      const { embed } = await import('./embed.js');
+      request.vector = (await embed(region ? region.text : resolved.query)) as number[];
+    }
+  }
+  if (resolved.mode === 'hybrid') {
+    request.hybrid = { embedder: store.EMBEDDER_NAME, semanticRatio: resolved.semanticRatio };
+  }
+
+  const retrieve = async (body: SearchRequest): Promise<Retrieved> => {
+    if (targets.length === 1) {
+      const result = await store.searchIndex(indexOf(primary), body);
+      return {
+        hits: primary.name === undefined ? result.hits : result.hits.map((hit) => ({ ...hit, repo: primary.name })),
+        processingTimeMs: result.processingTimeMs ?? 0,
+        estimatedTotalHits: result.estimatedTotalHits
+      };
+    }
+    const results = await store.multiSearch(targets.map((target) => ({ indexUid: indexOf(target), ...body })));
+    return {
+      hits: mergeHitsByScore(results.map((result, index) => ({ repo: targets[index].name ?? targets[index].index, hits: result.hits ?? [] })), Number(body.limit)),
+      processingTimeMs: Math.max(0, ...results.map((result) => result.processingTimeMs ?? 0))
+    };
+  };
+
+  let retrieved: Retrieved;
+  if (resolved.mode === 'rrf') {
+    const { vector: _vector, ...keywordRequest } = request;
+    const { q: _query, ...vectorRequest } = request;
+    const [keyword, semantic] = await Promise.all([retrieve(keywordRequest), retrieve(vectorRequest)]);
+    retrieved = {
+      hits: fuseReciprocalRank({ keyword: keyword.hits, vector: semantic.hits }, Number(request.limit)),
+      processingTimeMs: Math.max(keyword.processingTimeMs, semantic.processingTimeMs)
+    };
+  } else {
+    retrieved = await retrieve(request);
+  }
+
+  let hits = retrieved.hits;
+  if (region) {
+    hits = excludeRegion(hits, region, primary.name);
+  }
+  if (resolved.rerank) {
+    hits = await rerankHits(resolved.query, hits, candidates);
+  }
+
+  const result: SearchResult = {
+    query: resolved.query,
+    mode: resolved.mode,
+    limit: resolved.limit,
+    processingTimeMs: retrieved.processingTimeMs
+  };
+  if (retrieved.estimatedTotalHits !== undefined) {
+    result.estimatedTotalHits = retrieved.estimatedTotalHits;
+  }
+  if (targets.length > 1) {
+    result.repos = targets.map((target) => target.name ?? target.index);
+  }
+  if (region) {
+    result.source = { repo: primary.name, filePath: region.filePath, startLine: region.startLine, endLine: region.endLine };
+  }
+  if (resolved.rerank) {
+    result.rerankModel = RERANK_MODEL;
+  }
+
+  if (resolved.pack) {
+    const packed = await buildContextPack(mergeHits(hits, { limit: resolved.limit, perFile: resolved.perFile }), {
+      ...resolved.pack,
+      readLines: createSourceReader((hit) => targetOf(hit).root, resolved.rev),
+      symbolSearch: (hit, symbolRequest): Promise<SearchResponse> => store.searchIndex(indexOf(targetOf(hit)), symbolRequest)
+    });
+    return { ...result, ...packed };
+  }
+
+  const merged = mergeHits(hits, { limit: resolved.groupBy === 'file' ? Infinity : resolved.limit, perFile: resolved.perFile });
+  const formatted = await formatHits(merged, {
+    query: request.q,
+    queryVector: request.vector,
+    contextLines: resolved.context,
+    rootFor: (hit) => (resolved.rev ? null : targetOf(hit).root)
+  });
+  const formattedHits: SearchHit[] = merged.map(({ _formatted, content, ...hit }, index) => ({
+    ...hit,
+    ...(resolved.includeContent ? { content } : {}),
+    ...formatted[index]
+  }));
+  if (resolved.groupBy === 'file') {
+    result.files = groupHitsByFile(formattedHits, resolved.limit) as SearchFileGroup[];
+  } else {
+    result.hits = formattedHits;
+  }
+  return result;
+}
@@ -5,12 +5,46 @@ import { spawn, type ChildProcess } from 'node:child_process';
 import { setTimeout as delay } from 'node:timers/promises';
 import http from 'node:http';
 import { URL } from 'node:url';
+import { randomUUID } from 'node:crypto';
+
+import { accessConfigFromEnv, createAccess, isAccessError } from './access.js';
+import type { ReindexJob } from './api.js';
+import { loadRepoConfigs, type RepoConfig } from './config.js';
+import { parseGroupBy, parsePerFile } from './merge.js';
+import { parseBudget, parsePackFormat } from './pack.js';
+import { parseSemanticRatio } from './ranking.js';
+import { parseRerank } from './rerank.js';
+import {
+  isInvalidRequest,
+  parseContext,
+  parseIncludeContent,
+  parseLimit,
+  parseMode,
+  parseRev,
+  searchCode,
+  type SearchOptions,
+  type SearchResult,
+  type SearchTarget
+} from './searchcore.js';
+import { sourceLocation } from './similar.js';
+
+type MeiliMode = 'docker' | 'binary' | 'external';
+
+function parseMeiliMode(value: string): MeiliMode {
+  if (value === 'docker' || value === 'binary' || value === 'external') {
+    return value;
+  }
+  throw new Error(`Unsupported Meilisearch mode: ${value} (expected docker, binary or external)`);
+}
 
 interface ServeOptions {
   root: string;
   index: string;
   backend: string;
   ollamaModel: string;
+  meiliMode: MeiliMode;
+  meiliUrl?: string;
+  meiliBinary: string;
   meiliHost: string;
   meiliPort: number;
   masterKey: string;
@@ -19,6 +53,9 @@ interface ServeOptions {
   meiliImage: string;
   apiHost: string;
   apiPort: number;
+  migrate: boolean;
+  store: string;
+  config?: string;
 }
 
 function parseArgs(argv: string[]): ServeOptions {
@@ -27,6 +64,8 @@ function parseArgs(argv: string[]): ServeOptions {
     index: process.env.INDEX_UID ?? 'repo',
     backend: process.env.RAG_EMBED_BACKEND ?? 'ollama',
     ollamaModel: process.env.RAG_OLLAMA_MODEL ?? 'nomic-embed-text',
+    meiliMode: parseMeiliMode(process.env.MEILI_MODE ?? 'docker'),
+    meiliBinary: process.env.MEILI_BINARY ?? 'meilisearch',
     meiliHost: process.env.MEILI_HOST ?? '127.0.0.1',
     meiliPort: Number(process.env.MEILI_PORT ?? '7700'),
     masterKey: process.env.MEILI_KEY ?? 'devkey',
@@ -34,9 +73,13 @@ function parseArgs(argv: string[]): ServeOptions {
     dataDir: process.env.MEILI_DATA_DIR ?? '.meili-data',
     meiliImage: process.env.MEILI_IMAGE ?? 'getmeili/meilisearch:v1.10',
     apiHost: process.env.RAG_SERVER_HOST ?? '127.0.0.1',
-    apiPort: Number(process.env.RAG_SERVER_PORT ?? '3333')
+    apiPort: Number(process.env.RAG_SERVER_PORT ?? '3333'),
+    migrate: process.env.RAG_MIGRATE === '1',
+    store: process.env.RAG_STORE ?? 'meili',
+    config: process.env.RAG_CONFIG
   };
 
+  let modeFromArgs = false;
   const normalizedArgs = [...argv];
   for (let i = 0; i < normalizedArgs.length; i += 1) {
     const arg = normalizedArgs[i];
@@ -44,6 +87,10 @@ function parseArgs(argv: string[]): ServeOptions {
     if (!key) {
       continue;
     }
+    if (key === 'migrate') {
+      options.migrate = true;
+      continue;
+    }
     const nextValue = valueFromEq ?? normalizedArgs[i + 1];
     const value = valueFromEq ?? (nextValue && !nextValue.startsWith('--') ? nextValue : undefined);
     if (!value) {
@@ -62,6 +109,16 @@ function parseArgs(argv: string[]): ServeOptions {
       case 'ollama-model':
         options.ollamaModel = value;
         break;
+      case 'meili-mode':
+        options.meiliMode = parseMeiliMode(value);
+        modeFromArgs = true;
+        break;
+      case 'meili-url':
+        options.meiliUrl = value;
+        break;
+      case 'meili-binary':
+        options.meiliBinary = value;
+        break;
       case 'meili-host':
         options.meiliHost = value;
         break;
@@ -86,6 +143,12 @@ function parseArgs(argv: string[]): ServeOptions {
       case 'api-port':
         options.apiPort = Number(value);
         break;
+      case 'config':
+        options.config = value;
+        break;
+      case 'store':
+        options.store = value;
+        break;
       default:
         break;
     }
@@ -94,41 +157,46 @@ function parseArgs(argv: string[]): ServeOptions {
     }
   }
 
+  if (options.meiliUrl && !modeFromArgs) {
+    options.meiliMode = 'external';
+  }
+  if (options.meiliMode === 'external') {
+    options.meiliUrl ??= process.env.MEILI_URL;
+    if (!options.meiliUrl) {
+      throw new Error('External Meilisearch mode requires --meili-url or MEILI_URL');
+    }
+  }
+
   return options;
 }
 
-type SearchMode = 'vector' | 'keyword' | 'hybrid';
+const MAX_REINDEX_JOBS = 20;
+const SSE_KEEPALIVE_MS = 25_000;
 
-function parseMode(value?: string | null): SearchMode {
-  const normalized = (value ?? '').toLowerCase();
-  if (normalized === 'keyword' || normalized === 'bm25') {
-    return 'keyword';
-  }
-  if (normalized === 'hybrid') {
-    return 'hybrid';
-  }
-  if (normalized === '' || normalized === 'vector') {
-    return 'vector';
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string');
   }
-  throw new Error(`Unsupported mode: ${value}`);
+  return typeof value === 'string' ? [value] : [];
 }
 
-async function waitForMeili(url: string, timeoutMs = 30_000): Promise<void> {
+async function waitForMeili(instance: MeiliInstance, timeoutMs = 30_000): Promise<void> {
   const deadline = Date.now() + timeoutMs;
   while (Date.now() < deadline) {
+    if (instance.exited()) {
+      throw new Error(`Meilisearch (${instance.mode}) exited before becoming healthy`);
+    }
     try {
-      const response = await fetch(`${url.replace(/\/$/, '')}/health`);
+      const response = await fetch(`${instance.url.replace(/\/$/, '')}/health`);
       if (response.ok) {
         return;
       }
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('fetch failed')) {
-        // retry
-      }
+    } catch {
+      // not accepting connections yet
     }
     await delay(1_000);
   }
-  throw new Error('Timed out waiting for Meilisearch to become healthy');
+  throw new Error(`Timed out waiting for Meilisearch at ${instance.url} to become healthy`);
 }
 
 function withSimilarity<T extends { hits?: unknown[] }>(payload: T): T {
@@ -156,21 +224,69 @@ async function removeExistingContainer(name: string): Promise<void> {
   });
 }
 
-async function main() {
-  const options = parseArgs(process.argv.slice(2));
-  const resolvedRoot = path.resolve(options.root);
-  const resolvedDataDir = path.isAbsolute(options.dataDir)
-    ? options.dataDir
-    : path.join(resolvedRoot, options.dataDir);
+interface MeiliInstance {
+  mode: MeiliMode;
+  url: string;
+  exited: () => boolean;
+  stop: () => Promise<void>;
+}
 
-  await fs.mkdir(resolvedDataDir, { recursive: true });
+function spawnMeili(mode: MeiliMode, url: string, command: string, args: string[]): MeiliInstance {
+  const child = spawn(command, args, { stdio: 'inherit' });
+  let stopping = false;
+  let exited = false;
 
-  process.env.REPO_ROOT = resolvedRoot;
-  process.env.MEILI_URL = `http://${options.meiliHost}:${options.meiliPort}`;
-  process.env.MEILI_KEY = options.masterKey;
-  process.env.INDEX_UID = options.index;
-  process.env.RAG_EMBED_BACKEND = options.backend;
-  process.env.RAG_OLLAMA_MODEL = options.ollamaModel;
+  child.on('error', (error) => {
+    console.error(`Failed to start ${command}:`, error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+
+  child.once('exit', (code) => {
+    exited = true;
+    if (!stopping && code !== 0) {
+      console.error(`Meilisearch (${mode}) exited unexpectedly`);
+      process.exit(1);
+    }
+  });
+
+  return {
+    mode,
+    url,
+    exited: () => exited,
+    stop: async () => {
+      if (stopping) {
+        return;
+      }
+      stopping = true;
+      if (!exited) {
+        child.kill('SIGINT');
+        await Promise.race([
+          new Promise((resolve) => child.once('exit', resolve)),
+          delay(5_000)
+        ]);
+      }
+    }
+  };
+}
+
+async function startMeili(options: ServeOptions, dataDir: string): Promise<MeiliInstance> {
+  if (options.meiliMode === 'external') {
+    return { mode: 'external', url: options.meiliUrl!, exited: () => false, stop: async () => {} };
+  }
+
+  const url = `http://${options.meiliHost}:${options.meiliPort}`;
+  await fs.mkdir(dataDir, { recursive: true });
+
+  if (options.meiliMode === 'binary') {
+    return spawnMeili('binary', url, options.meiliBinary, [
+      '--db-path',
+      dataDir,
+      '--master-key',
+      options.masterKey,
+      '--http-addr',
+      `${options.meiliHost}:${options.meiliPort}`
+    ]);
+  }
 
   await removeExistingContainer(options.containerName);
 
@@ -182,7 +298,7 @@ async function main() {
     '-e',
     `MEILI_MASTER_KEY=${options.masterKey}`,
     '-v',
-    `${resolvedDataDir}:/meili_data`
+    `${dataDir}:/meili_data`
   ];
 
   if (options.meiliHost && options.meiliHost !== '0.0.0.0') {
@@ -193,64 +309,197 @@ async function main() {
 
   dockerArgs.push(options.meiliImage);
 
-  const dockerProcess = spawn('docker', dockerArgs, { stdio: 'inherit' });
-
-  let dockerStopped = false;
+  return spawnMeili('docker', url, 'docker', dockerArgs);
+}
 
-  dockerProcess.on('error', (error) => {
-    console.error('Failed to start docker:', error instanceof Error ? error.message : error);
-    process.exit(1);
-  });
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const resolvedRoot = path.resolve(options.root);
+  const resolvedDataDir = path.isAbsolute(options.dataDir)
+    ? options.dataDir
+    : path.join(resolvedRoot, options.dataDir);
 
-  const stopDocker = async () => {
-    if (dockerStopped) {
-      return;
-    }
-    dockerStopped = true;
-    if (!dockerProcess.killed) {
-      dockerProcess.kill('SIGINT');
-      await Promise.race([
-        new Promise((resolve) => dockerProcess.once('exit', resolve)),
-        delay(5_000)
-      ]);
-    }
-  };
+  process.env.REPO_ROOT = resolvedRoot;
+  process.env.RAG_STORE = options.store;
+  process.env.MEILI_URL = options.meiliMode === 'external' ? options.meiliUrl : `http://${options.meiliHost}:${options.meiliPort}`;
+  process.env.MEILI_KEY = options.masterKey;
+  process.env.INDEX_UID = options.index;
 
-  dockerProcess.once('exit', (code) => {
-    if (!dockerStopped && code !== 0) {
-      console.error('Meilisearch container exited unexpectedly');
-      process.exit(1);
-    }
-  });
+  let repoConfigs: RepoConfig[] | undefined;
+  if (options.config) {
+    repoConfigs = await loadRepoConfigs(options.config);
+    process.env.INDEX_UID = repoConfigs[0].indexUid;
+  }
+  process.env.RAG_EMBED_BACKEND = options.backend;
+  process.env.RAG_OLLAMA_MODEL = options.ollamaModel;
 
-  const [{ enableVectorStore, BASE_HEADERS, MEILI_URL, INDEX_UID }, { startWatcher, indexOnce }, embedModule] = await Promise.all([
-    import('./meili.js'),
+  const [{ STORE_KIND }, { indexEvents, startWatcher }, { defaultRepoConfig }] = await Promise.all([
+    import('./store.js'),
     import('./indexer.js'),
-    import('./embed.js')
+    import('./config.js')
   ]);
 
-  await waitForMeili(MEILI_URL);
-  try {
-    await enableVectorStore();
-  } catch (error) {
-    console.error('Failed to enable vector store:', error instanceof Error ? error.message : error);
-    await stopDocker();
-    process.exit(1);
+  let stopMeili = async () => {};
+  if (STORE_KIND === 'meili') {
+    const instance = await startMeili(options, resolvedDataDir);
+    stopMeili = instance.stop;
+    try {
+      await waitForMeili(instance);
+      const { enableVectorStore } = await import('./meili.js');
+      await enableVectorStore();
+    } catch (error) {
+      console.error('Failed to start Meilisearch:', error instanceof Error ? error.message : error);
+      await stopMeili();
+      process.exit(1);
+    }
   }
 
   const logger = (payload: Record<string, unknown>) => {
     console.log(JSON.stringify({ timestamp: new Date().toISOString(), ...payload }));
   };
 
-  let watcherHandle: Awaited<ReturnType<typeof startWatcher>>;
+  type WatcherHandle = Awaited<ReturnType<typeof startWatcher>>;
+  const watcherHandles = new Map<string, WatcherHandle>();
+  const closeWatchers = async () => {
+    await Promise.all([...watcherHandles.values()].map((handle) => handle.close()));
+  };
   try {
-    watcherHandle = await startWatcher(logger);
+    for (const repo of repoConfigs ?? [defaultRepoConfig()]) {
+      const repoLogger = (payload: Record<string, unknown>) => logger({ repo: repo.name, ...payload });
+      watcherHandles.set(repo.name, await startWatcher(repoLogger, { migrate: options.migrate, repo }));
+    }
   } catch (error) {
     console.error('Failed to start watcher:', error instanceof Error ? error.message : error);
-    await stopDocker();
+    await closeWatchers();
+    await stopMeili();
     process.exit(1);
   }
 
+  const selectRepos = (value: unknown): WatcherHandle[] => {
+    const names = toList(value).flatMap((item) => item.split(',')).map((item) => item.trim()).filter(Boolean);
+    if (names.length === 0) {
+      return [...watcherHandles.values()];
+    }
+    return names.map((name) => {
+      const handle = watcherHandles.get(name);
+      if (!handle) {
+        throw new Error(`Unknown repository: ${name}`);
+      }
+      return handle;
+    });
+  };
+
+  const searchOptionsFrom = (requestUrl: URL, payload: Record<string, unknown> = {}): SearchOptions => {
+    const value = (name: string): unknown => payload[name] ?? requestUrl.searchParams.get(name) ?? undefined;
+    const optional = <T>(name: string, parse: (raw: unknown) => T): T | undefined => {
+      const raw = value(name);
+      return raw === undefined ? undefined : parse(raw);
+    };
+    const list = (name: string) => (payload[name] !== undefined ? toList(payload[name]) : requestUrl.searchParams.getAll(name));
+    const query = payload.query ?? payload.q ?? requestUrl.searchParams.get('q') ?? undefined;
+    if (query !== undefined && typeof query !== 'string') {
+      throw new Error('query must be a string');
+    }
+    const { vector } = payload;
+    if (vector !== undefined && !(Array.isArray(vector) && vector.every((item) => typeof item === 'number'))) {
+      throw new Error('vector must be an array of numbers');
+    }
+    const filter = value('filter');
+    const targets: SearchTarget[] = selectRepos(payload.repo ?? requestUrl.searchParams.getAll('repo'))
+      .map(({ repo }) => ({ name: repo.name, index: repo.indexUid, root: repo.root }));
+    return {
+      query,
+      vector: vector as number[] | undefined,
+      mode: parseMode(value('mode')),
+      limit: parseLimit(value('limit')),
+      paths: list('path'),
+      languages: list('lang'),
+      excludes: list('exclude'),
+      filter: typeof filter === 'string' ? filter : undefined,
+      semanticRatio: optional('semanticRatio', parseSemanticRatio),
+      rerank: optional('rerank', parseRerank),
+      rev: optional('rev', parseRev),
+      context: optional('context', parseContext),
+      perFile: optional('perFile', parsePerFile),
+      groupBy: optional('groupBy', (raw) => parseGroupBy(String(raw))),
+      includeContent: optional('includeContent', parseIncludeContent),
+      targets
+    };
+  };
+
+  const sendError = (res: http.ServerResponse, status: number, error: unknown) => {
+    res.writeHead(status, { 'content-type': 'application/json', ...(isAccessError(error) ? error.headers : undefined) });
+    res.end(JSON.stringify({ error: error instanceof Error ? error.message : error }));
+  };
+
+  const runSearch = async (res: http.ServerResponse, searchOptions: SearchOptions) => {
+    let result: SearchResult;
+    try {
+      result = await searchCode(searchOptions);
+    } catch (error) {
+      sendError(res, isInvalidRequest(error) ? 400 : 500, error);
+      return;
+    }
+    withSimilarity(result);
+    for (const group of result.files ?? []) {
+      withSimilarity(group);
+    }
+    res.writeHead(200, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(result));
+  };
+
+  const reindexJobs = new Map<string, ReindexJob>();
+
+  const startReindexJob = (watcherHandle: WatcherHandle): ReindexJob => {
+    const job: ReindexJob = {
+      id: randomUUID(),
+      repo: watcherHandle.repo.name,
+      status: 'running',
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      processedFiles: 0,
+      currentFile: null,
+      summary: null,
+      error: null
+    };
+    reindexJobs.set(job.id, job);
+    for (const id of reindexJobs.keys()) {
+      if (reindexJobs.size <= MAX_REINDEX_JOBS) {
+        break;
+      }
+      reindexJobs.delete(id);
+    }
+    watcherHandle
+      .rebuild({
+        onFile: (file, processed) => {
+          job.currentFile = file;
+          job.processedFiles = processed;
+        }
+      })
+      .then((summary) => {
+        job.status = 'completed';
+        job.summary = { ...summary };
+      })
+      .catch((error) => {
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : String(error);
+        logger({ event: 'error', message: 'Reindex job failed', job: job.id, detail: job.error });
+      })
+      .finally(() => {
+        job.currentFile = null;
+        job.finishedAt = new Date().toISOString();
+      });
+    return job;
+  };
+
+  const access = createAccess(accessConfigFromEnv());
+  if (!access.enabled && !['127.0.0.1', '::1', 'localhost'].includes(options.apiHost)) {
+    logger({
+      event: 'warning',
+      message: `API on ${options.apiHost} has no auth; set RAG_SERVER_READ_TOKENS and RAG_SERVER_ADMIN_TOKENS`
+    });
+  }
+
   const apiServer = http.createServer(async (req, res) => {
     if (!req.url) {
       res.writeHead(404).end();
@@ -259,154 +508,160 @@ async function main() {
     const requestUrl = new URL(req.url, `http://${req.headers.host ?? `${options.apiHost}:${options.apiPort}`}`);
 
     try {
+      if (access.cors(req, res)) {
+        res.writeHead(204).end();
+        return;
+      }
+      const { client } = access.admit(req, res, () => (
+        access.enabled && requestUrl.pathname === '/events' && requestUrl.searchParams.has('token')
+          ? { client: access.redeemTicket(requestUrl.searchParams.get('token'), '/events'), role: 'read' }
+          : access.authenticate(req, requestUrl.pathname.startsWith('/reindex') ? 'admin' : 'read')
+      ));
+
       if (req.method === 'GET' && requestUrl.pathname === '/health') {
         res.writeHead(200, { 'content-type': 'application/json' });
-        res.end(JSON.stringify({ status: 'ok', index: watcherHandle.summary }));
+        const runs = indexEvents.snapshots();
+        const repos = [...watcherHandles.values()].map(({ repo, summary, commit }) => {
+          const progress = runs.find((run) => run.repo === repo.name && !run.rev) ?? null;
+          return {
+            name: repo.name,
+            indexUid: repo.indexUid,
+            root: repo.root,
+            commit,
+            summary,
+            indexing: progress !== null && progress.finishedAt === null,
+            progress
+          };
+        });
+        const single = repos.length === 1 ? repos[0] : undefined;
+        res.end(JSON.stringify({ status: 'ok', index: single?.summary, commit: single?.commit, repos }));
         return;
       }
 
-      if (req.method === 'POST' && requestUrl.pathname === '/reindex') {
-        const summary = await indexOnce(logger);
+      if (req.method === 'GET' && requestUrl.pathname === '/progress') {
+        const runs = indexEvents.snapshots();
         res.writeHead(200, { 'content-type': 'application/json' });
-        res.end(JSON.stringify({ status: 'ok', summary }));
+        res.end(JSON.stringify({ indexing: runs.some((run) => run.finishedAt === null), runs }));
         return;
       }
 
-      if (requestUrl.pathname === '/search') {
-        const limitParam = requestUrl.searchParams.get('limit');
-        const limit = limitParam ? Math.max(1, Number.parseInt(limitParam, 10) || 8) : 8;
-        const modeParam = requestUrl.searchParams.get('mode');
-        let mode: SearchMode;
-        try {
-          mode = parseMode(modeParam ?? 'vector');
-        } catch (error) {
+      if (req.method === 'POST' && requestUrl.pathname === '/events/token') {
+        res.writeHead(200, { 'content-type': 'application/json' });
+        res.end(JSON.stringify(access.issueTicket(client, '/events')));
+        return;
+      }
+
+      if (req.method === 'GET' && requestUrl.pathname === '/events') {
+        res.writeHead(200, { 'content-type': 'text/event-stream', 'cache-control': 'no-cache', connection: 'keep-alive' });
+        for (const progress of indexEvents.snapshots()) {
+          res.write(`event: snapshot\ndata: ${JSON.stringify(progress)}\n\n`);
+        }
+        const unsubscribe = indexEvents.subscribe((event) => {
+          res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.progress)}\n\n`);
+        });
+        const keepalive = setInterval(() => res.write(': keepalive\n\n'), SSE_KEEPALIVE_MS);
+        req.on('close', () => {
+          clearInterval(keepalive);
+          unsubscribe();
+        });
+        return;
+      }
+
+      if (req.method === 'POST' && requestUrl.pathname === '/reindex') {
+        const repoParam = requestUrl.searchParams.get('repo');
+        if (!repoParam && watcherHandles.size > 1) {
           res.writeHead(400, { 'content-type': 'application/json' });
-          res.end(JSON.stringify({ error: error instanceof Error ? error.message : error }));
+          res.end(JSON.stringify({ error: 'Missing query parameter repo', repos: [...watcherHandles.keys()] }));
           return;
         }
+        const watcherHandle = repoParam ? watcherHandles.get(repoParam) : [...watcherHandles.values()][0];
+        if (!watcherHandle) {
+          res.writeHead(404, { 'content-type': 'application/json' });
+          res.end(JSON.stringify({ error: `Unknown repository: ${repoParam}` }));
+          return;
+        }
+        const running = [...reindexJobs.values()].find((job) => job.status === 'running' && job.repo === watcherHandle.repo.name);
+        if (running) {
+          res.writeHead(409, { 'content-type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Reindex already running', jobId: running.id }));
+          return;
+        }
+        const job = startReindexJob(watcherHandle);
+        res.writeHead(202, { 'content-type': 'application/json', location: `/reindex/${job.id}` });
+        res.end(JSON.stringify({ status: 'accepted', jobId: job.id }));
+        return;
+      }
 
-        if (req.method === 'GET') {
-          const query = requestUrl.searchParams.get('q') ?? '';
-          const meiliPayload: Record<string, unknown> = { limit, showRankingScore: true };
-
-          if (mode === 'keyword' || mode === 'hybrid') {
-            if (!query.trim()) {
-              res.writeHead(400, { 'content-type': 'application/json' });
-              res.end(JSON.stringify({ error: 'Missing query parameter q' }));
-              return;
-            }
-            meiliPayload.q = query;
-          }
-
-          if (mode === 'vector' || mode === 'hybrid') {
-            if (!query.trim()) {
-              res.writeHead(400, { 'content-type': 'application/json' });
-              res.end(JSON.stringify({ error: 'Missing query parameter q for vector search' }));
-              return;
-            }
-            const vector = (await embedModule.embed(query)) as number[];
-            meiliPayload.vector = vector;
-          }
+      if (req.method === 'GET' && requestUrl.pathname.startsWith('/reindex/')) {
+        const job = reindexJobs.get(decodeURIComponent(requestUrl.pathname.slice('/reindex/'.length)));
+        if (!job) {
+          res.writeHead(404, { 'content-type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Unknown reindex job' }));
+          return;
+        }
+        res.writeHead(200, { 'content-type': 'application/json' });
+        res.end(JSON.stringify(job));
+        return;
+      }
 
-          if (!('q' in meiliPayload) && !('vector' in meiliPayload)) {
-            res.writeHead(400, { 'content-type': 'application/json' });
-            res.end(JSON.stringify({ error: 'No search parameters provided' }));
-            return;
-          }
-          const meiliResponse = await fetch(`${MEILI_URL.replace(/\/$/, '')}/indexes/${INDEX_UID}/search`, {
-            method: 'POST',
-            headers: BASE_HEADERS,
-            body: JSON.stringify(meiliPayload)
-          });
-          const body = await meiliResponse.text();
-          res.writeHead(meiliResponse.status, { 'content-type': 'application/json' });
-          try {
-            const json = JSON.parse(body);
-            res.end(JSON.stringify(withSimilarity(json)));
-          } catch {
-            res.end(body);
+      const isSimilar = requestUrl.pathname === '/similar';
+      if (req.method === 'GET' && (requestUrl.pathname === '/search' || isSimilar)) {
+        let searchOptions: SearchOptions;
+        try {
+          searchOptions = searchOptionsFrom(requestUrl);
+          if (isSimilar) {
+            searchOptions.query = undefined;
+            searchOptions.like = sourceLocation(
+              requestUrl.searchParams.get('file'),
+              requestUrl.searchParams.get('start'),
+              requestUrl.searchParams.get('end')
+            );
           }
+        } catch (error) {
+          sendError(res, 400, error);
           return;
         }
+        await runSearch(res, searchOptions);
+        return;
+      }
 
-        if (req.method === 'POST') {
-          let body = '';
-          req.on('data', (chunk) => {
-            body += chunk;
-          });
-          req.on('end', async () => {
-            try {
-              const payload = JSON.parse(body ?? '{}');
-              const query = typeof payload.query === 'string' ? payload.query : (typeof payload.q === 'string' ? payload.q : '');
-              const requestedMode = payload.mode ? parseMode(payload.mode) : mode;
-              const meiliPayload: Record<string, unknown> = {
-                limit: payload.limit ? Math.max(1, Number.parseInt(String(payload.limit), 10) || limit) : limit,
-                showRankingScore: true
-              };
-
-              if (requestedMode === 'keyword' || requestedMode === 'hybrid') {
-                if (!query.trim()) {
-                  res.writeHead(400, { 'content-type': 'application/json' });
-                  res.end(JSON.stringify({ error: 'Missing query for keyword search' }));
-                  return;
-                }
-                meiliPayload.q = query;
-              }
-
-              if (requestedMode === 'vector' || requestedMode === 'hybrid') {
-                let vector: number[] | undefined;
-                if (Array.isArray(payload.vector) && payload.vector.every((v: unknown) => typeof v === 'number')) {
-                  vector = payload.vector as number[];
-                } else if (query.trim()) {
-                  vector = (await embedModule.embed(query)) as number[];
-                } else {
-                  res.writeHead(400, { 'content-type': 'application/json' });
-                  res.end(JSON.stringify({ error: 'Missing query for vector search' }));
-                  return;
-                }
-                meiliPayload.vector = vector;
-              }
-
-              if (!('q' in meiliPayload) && !('vector' in meiliPayload)) {
-                res.writeHead(400, { 'content-type': 'application/json' });
-                res.end(JSON.stringify({ error: 'No search parameters provided' }));
-                return;
-              }
-
-              const meiliResponse = await fetch(`${MEILI_URL.replace(/\/$/, '')}/indexes/${INDEX_UID}/search`, {
-                method: 'POST',
-                headers: BASE_HEADERS,
-                body: JSON.stringify(meiliPayload)
-              });
-              const meiliBody = await meiliResponse.text();
-              res.writeHead(meiliResponse.status, { 'content-type': 'application/json' });
-              try {
-                const json = JSON.parse(meiliBody);
-                res.end(JSON.stringify(withSimilarity(json)));
-              } catch {
-                res.end(meiliBody);
-              }
-            } catch (error) {
-              res.writeHead(400, { 'content-type': 'application/json' });
-              res.end(JSON.stringify({ error: error instanceof Error ? error.message : error }));
-            }
-          });
+      const isContext = requestUrl.pathname === '/context';
+      if (req.method === 'POST' && (requestUrl.pathname === '/search' || isContext)) {
+        let searchOptions: SearchOptions;
+        try {
+          const body = await access.readBody(req);
+          const payload = JSON.parse(body || '{}');
+          if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+            throw new Error('Request body must be a JSON object');
+          }
+          searchOptions = searchOptionsFrom(requestUrl, payload);
+          if (isContext) {
+            searchOptions.context = undefined;
+            searchOptions.groupBy = undefined;
+            searchOptions.pack = {
+              budget: parseBudget(payload.budget ?? requestUrl.searchParams.get('budget')),
+              format: parsePackFormat(payload.format ?? requestUrl.searchParams.get('format'))
+            };
+          }
+        } catch (error) {
+          sendError(res, isAccessError(error) ? error.status : 400, error);
           return;
         }
+        await runSearch(res, searchOptions);
+        return;
       }
 
       res.writeHead(404, { 'content-type': 'application/json' });
       res.end(JSON.stringify({ error: 'Not found' }));
     } catch (error) {
-      res.writeHead(500, { 'content-type': 'application/json' });
-      res.end(JSON.stringify({ error: error instanceof Error ? error.message : error }));
+      sendError(res, isAccessError(error) ? error.status : 500, error);
     }
   });
 
   apiServer.on('error', async (error) => {
     logger({ event: 'error', message: 'API server failed to start', detail: error instanceof Error ? error.message : error });
-    await watcherHandle.close();
-    await stopDocker();
+    await closeWatchers();
+    await stopMeili();
     process.exit(1);
   });
 
@@ -419,9 +674,9 @@ async function main() {
 
   const shutdown = async () => {
     logger({ event: 'server', message: 'Shutting down' });
-    await watcherHandle.close();
+    await closeWatchers();
     await new Promise<void>((resolve) => apiServer.close(() => resolve()));
-    await stopDocker();
+    await stopMeili();
     process.exit(0);
   };
 
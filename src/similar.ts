@@ -0,0 +1,100 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import { gitResolveCommit, gitShowFile } from './git.js';
+
+type Hit = Record<string, unknown>;
+
+export interface SourceLocation {
+  filePath: string;
+  startLine?: number;
+  endLine?: number;
+}
+
+export interface SourceRegion {
+  filePath: string;
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+function parseLine(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const line = Number.parseInt(String(value), 10);
+  if (!Number.isFinite(line) || line <= 0 || String(line) !== String(value).trim()) {
+    throw new Error(`${name} must be a positive line number`);
+  }
+  return line;
+}
+
+export function sourceLocation(filePath: unknown, start?: unknown, end?: unknown): SourceLocation {
+  if (typeof filePath !== 'string' || !filePath.trim()) {
+    throw new Error('file is required');
+  }
+  const startLine = parseLine(start, 'start');
+  const endLine = parseLine(end, 'end') ?? startLine;
+  if (startLine !== undefined && endLine !== undefined && endLine < startLine) {
+    throw new Error('end must not be before start');
+  }
+  return { filePath: filePath.trim(), startLine, endLine };
+}
+
+export function parseLocation(value: string): SourceLocation {
+  const match = /^(.+?):(\d+)(?:-(\d+))?$/.exec(value.trim());
+  return match ? sourceLocation(match[1], match[2], match[3]) : sourceLocation(value);
+}
+
+export function repoRelativePath(root: string, filePath: string): string {
+  const rel = path.relative(root, path.resolve(root, filePath)).split(path.sep).join('/');
+  if (!rel || rel.startsWith('../') || rel === '..' || path.isAbsolute(rel)) {
+    throw new Error(`File is outside the repository: ${filePath}`);
+  }
+  return rel;
+}
+
+// Resolves symlinks before reading so that a link inside the repository cannot
+// expose a file outside of it.
+async function readWorkingFile(root: string, filePath: string): Promise<string | null> {
+  const [realRoot, realFile] = await Promise.all([fs.realpath(root), fs.realpath(path.join(root, filePath)).catch(() => null)]);
+  if (realFile === null) {
+    return null;
+  }
+  const rel = path.relative(realRoot, realFile);
+  if (!rel || rel.startsWith('..') || path.isAbsolute(rel)) {
+    throw new Error(`File is outside the repository: ${filePath}`);
+  }
+  return fs.readFile(realFile, 'utf8').catch(() => null);
+}
+
+export async function readRegion(root: string, location: SourceLocation, rev?: string): Promise<SourceRegion> {
+  const filePath = repoRelativePath(root, location.filePath);
+  const text = rev ? await gitShowFile(root, await gitResolveCommit(root, rev), filePath) : await readWorkingFile(root, filePath);
+  if (text === null) {
+    throw new Error(rev ? `File not found at ${rev}: ${filePath}` : `File not found: ${filePath}`);
+  }
+  const lines = text.replace(/\r?\n$/, '').split(/\r?\n/);
+  const startLine = location.startLine ?? 1;
+  const endLine = Math.min(location.endLine ?? lines.length, lines.length);
+  if (startLine > lines.length) {
+    throw new Error(`Line ${startLine} is outside ${filePath} (${lines.length} lines)`);
+  }
+  const region = lines.slice(startLine - 1, endLine).join('\n');
+  if (!region.trim()) {
+    throw new Error(`Lines ${startLine}-${endLine} of ${filePath} are empty`);
+  }
+  return { filePath, startLine, endLine, text: region };
+}
+
+export function excludeRegion(hits: Hit[], region: SourceRegion, repo?: string): Hit[] {
+  return hits.filter((hit) => {
+    if (hit.filePath !== region.filePath || (repo !== undefined && hit.repo !== undefined && hit.repo !== repo)) {
+      return true;
+    }
+    if (typeof hit.startLine !== 'number' || typeof hit.endLine !== 'number') {
+      return true;
+    }
+    return hit.endLine < region.startLine || hit.startLine > region.endLine;
+  });
+}
@@ -118,11 +118,29 @@ async function main() {
   process.env.INDEX_UID = options.index;
   process.env.REPO_ROOT = options.root;
 
-  const { MEILI_URL, INDEX_UID, BASE_HEADERS } = await import('./meili.js');
+  const { STORE_KIND, INDEX_UID: storeIndexUid, indexStats } = await import('./store.js');
+  if (STORE_KIND === 'local') {
+    const { LOCAL_STORE_DIR } = await import('./localstore.js');
+    const stats = await indexStats(storeIndexUid);
+    if (!stats) {
+      throw new Error(`Index "${storeIndexUid}" does not exist in ${LOCAL_STORE_DIR}`);
+    }
+    console.log(JSON.stringify({
+      store: 'local',
+      indexUid: storeIndexUid,
+      documents: stats.numberOfDocuments,
+      fields: stats.fieldDistribution,
+      databasePath: LOCAL_STORE_DIR,
+      databaseSizeBytes: await directorySize(LOCAL_STORE_DIR)
+    }, null, 2));
+    return;
+  }
+
+  const { MEILI_URL, INDEX_UID, BASE_HEADERS, meiliBaseUrl } = await import('./meili.js');
 
-  const indexUrl = `${MEILI_URL.replace(/\/$/, '')}/indexes/${INDEX_UID}`;
+  const indexUrl = `${meiliBaseUrl()}/indexes/${INDEX_UID}`;
   const statsUrl = `${indexUrl}/stats`;
-  const tasksUrl = `${MEILI_URL.replace(/\/$/, '')}/tasks?indexUid=${encodeURIComponent(INDEX_UID)}&limit=5&from=0`;
+  const tasksUrl = `${meiliBaseUrl()}/tasks?indexUid=${encodeURIComponent(INDEX_UID)}&limit=5&from=0`;
 
   const [meta, stats, tasks] = await Promise.all([
     fetchJson<IndexMeta>(indexUrl, BASE_HEADERS),
@@ -0,0 +1,147 @@
+import process from 'node:process';
+import { createHash } from 'node:crypto';
+
+export type StoreKind = 'meili' | 'local';
+
+function parseStoreKind(value?: string): StoreKind {
+  const normalized = (value ?? 'meili').toLowerCase();
+  if (normalized === 'meili' || normalized === 'meilisearch') {
+    return 'meili';
+  }
+  if (normalized === 'local') {
+    return 'local';
+  }
+  throw new Error(`Unsupported RAG_STORE: ${value}`);
+}
+
+export const STORE_KIND = parseStoreKind(process.env.RAG_STORE);
+export const INDEX_UID = process.env.INDEX_UID ?? 'repo';
+export const EMBEDDER_NAME = process.env.MEILI_EMBEDDER_NAME ?? 'code';
+
+export interface IndexIdentity {
+  model: string;
+  dimensions: number;
+}
+
+export interface SearchRequest {
+  q?: string;
+  vector?: number[];
+  limit?: number;
+  offset?: number;
+  filter?: string;
+  showRankingScore?: boolean;
+  [key: string]: unknown;
+}
+
+export interface SearchResponse {
+  hits: Array<Record<string, unknown>>;
+  processingTimeMs?: number;
+  estimatedTotalHits?: number;
+  [key: string]: unknown;
+}
+
+export interface DocumentsRequest {
+  offset?: number;
+  limit?: number;
+  fields?: string[];
+  filter?: string;
+  retrieveVectors?: boolean;
+}
+
+export interface DocumentsPage {
+  results: Array<Record<string, unknown>>;
+  offset: number;
+  limit: number;
+  total: number;
+}
+
+export interface IndexStats {
+  numberOfDocuments: number;
+  isIndexing: boolean;
+  fieldDistribution: Record<string, number>;
+}
+
+export interface Store {
+  kind: StoreKind;
+  ensureIndex: (dimensions: number, uid: string) => Promise<void>;
+  getEmbedderDimensions: (uid: string) => Promise<number | null>;
+  getIndexIdentity: (uid: string) => Promise<IndexIdentity | null>;
+  setIndexIdentity: (identity: IndexIdentity, uid: string) => Promise<number[]>;
+  swapIndexes: (first: string, second: string) => Promise<number | null>;
+  deleteIndex: (uid: string) => Promise<void>;
+  addDocuments: (docs: unknown[], batchSize: number | undefined, uid: string) => Promise<number[]>;
+  deleteByFilePath: (filePath: string, uid: string) => Promise<number | null>;
+  deleteByFilePaths: (filePaths: string[], uid: string) => Promise<number[]>;
+  search: (uid: string, request: SearchRequest) => Promise<SearchResponse>;
+  multiSearch: (queries: Array<SearchRequest & { indexUid: string }>) => Promise<SearchResponse[]>;
+  stats: (uid: string) => Promise<IndexStats | null>;
+  fetchDocuments: (uid: string, request: DocumentsRequest) => Promise<DocumentsPage>;
+}
+
+let storePromise: Promise<Store> | null = null;
+
+export function getStore(): Promise<Store> {
+  if (!storePromise) {
+    storePromise = STORE_KIND === 'local'
+      ? import('./localstore.js').then((module) => module.localStore)
+      : import('./meili.js').then((module) => module.meiliStore);
+  }
+  return storePromise;
+}
+
+export function revisionIndexUid(rev: string, uid = INDEX_UID): string {
+  const digest = createHash('sha256').update(rev).digest('hex').slice(0, 8);
+  return `${uid}__rev_${rev.replace(/[^A-Za-z0-9_-]/g, '_')}_${digest}`;
+}
+
+export async function ensureIndex(dimensions: number, uid = INDEX_UID): Promise<void> {
+  return (await getStore()).ensureIndex(dimensions, uid);
+}
+
+export async function getEmbedderDimensions(uid = INDEX_UID): Promise<number | null> {
+  return (await getStore()).getEmbedderDimensions(uid);
+}
+
+export async function getIndexIdentity(uid = INDEX_UID): Promise<IndexIdentity | null> {
+  return (await getStore()).getIndexIdentity(uid);
+}
+
+export async function setIndexIdentity(identity: IndexIdentity, uid = INDEX_UID): Promise<number[]> {
+  return (await getStore()).setIndexIdentity(identity, uid);
+}
+
+export async function swapIndexes(first: string, second: string): Promise<number | null> {
+  return (await getStore()).swapIndexes(first, second);
+}
+
+export async function deleteIndex(uid: string): Promise<void> {
+  return (await getStore()).deleteIndex(uid);
+}
+
+export async function addDocuments(docs: unknown[], batchSize?: number, uid = INDEX_UID): Promise<number[]> {
+  return (await getStore()).addDocuments(docs, batchSize, uid);
+}
+
+export async function deleteByFilePath(filePath: string, uid = INDEX_UID): Promise<number | null> {
+  return (await getStore()).deleteByFilePath(filePath, uid);
+}
+
+export async function deleteByFilePaths(filePaths: string[], uid = INDEX_UID): Promise<number[]> {
+  return (await getStore()).deleteByFilePaths(filePaths, uid);
+}
+
+export async function searchIndex(uid: string, request: SearchRequest): Promise<SearchResponse> {
+  return (await getStore()).search(uid, request);
+}
+
+export async function multiSearch(queries: Array<SearchRequest & { indexUid: string }>): Promise<SearchResponse[]> {
+  return (await getStore()).multiSearch(queries);
+}
+
+export async function indexStats(uid = INDEX_UID): Promise<IndexStats | null> {
+  return (await getStore()).stats(uid);
+}
+
+export async function fetchDocuments(uid: string, request: DocumentsRequest): Promise<DocumentsPage> {
+  return (await getStore()).fetchDocuments(uid, request);
+}
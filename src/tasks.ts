@@ -0,0 +1,121 @@
+import { setTimeout as delay } from 'node:timers/promises';
+
+const TASK_TIMEOUT_MS = Number(process.env.RAG_TASK_TIMEOUT_MS ?? '600000');
+const TASK_POLL_MIN_MS = 100;
+const TASK_POLL_MAX_MS = 2_000;
+const TASK_QUERY_LIMIT = 100;
+
+type Logger = (payload: Record<string, unknown>) => void;
+
+export interface TaskContext {
+  action: string;
+  file?: string;
+  files?: string[];
+}
+
+export interface TaskReport {
+  succeeded: number;
+  failed: number;
+  failedFiles: string[];
+}
+
+export interface TaskTracker {
+  track: (taskUids: number | number[] | null, context: TaskContext) => void;
+  settle: () => Promise<TaskReport>;
+  pending: () => number;
+}
+
+interface TaskStatus {
+  uid: number;
+  status: 'enqueued' | 'processing' | 'succeeded' | 'failed' | 'canceled';
+  type: string;
+  error: { message: string; code?: string } | null;
+}
+
+async function fetchTasks(uids: number[]): Promise<TaskStatus[]> {
+  const { BASE_HEADERS, meiliBaseUrl } = await import('./meili.js');
+  const url = `${meiliBaseUrl()}/tasks?uids=${uids.join(',')}&limit=${uids.length}`;
+  const response = await fetch(url, { headers: BASE_HEADERS });
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`Failed to fetch task status: ${response.status} ${body}`);
+  }
+  const json = (await response.json()) as { results?: TaskStatus[] };
+  return json.results ?? [];
+}
+
+export function createTaskTracker(logger: Logger): TaskTracker {
+  const pending = new Map<number, TaskContext>();
+  let settling: Promise<TaskReport> | null = null;
+
+  const track = (taskUids: number | number[] | null, context: TaskContext) => {
+    for (const uid of Array.isArray(taskUids) ? taskUids : [taskUids]) {
+      if (typeof uid === 'number') {
+        pending.set(uid, context);
+      }
+    }
+  };
+
+  const poll = async (): Promise<TaskReport> => {
+    const report: TaskReport = { succeeded: 0, failed: 0, failedFiles: [] };
+    const failedFiles = new Set<string>();
+    const deadline = Date.now() + TASK_TIMEOUT_MS;
+    let wait = TASK_POLL_MIN_MS;
+    const fail = (uid: number, details: Record<string, unknown>) => {
+      const context = pending.get(uid);
+      pending.delete(uid);
+      report.failed += 1;
+      for (const file of [context?.file, ...(context?.files ?? [])]) {
+        if (file) {
+          failedFiles.add(file);
+        }
+      }
+      logger({ event: 'error', task: uid, ...details, ...context });
+    };
+    while (pending.size > 0) {
+      const uids = [...pending.keys()].slice(0, TASK_QUERY_LIMIT);
+      const tasks = await fetchTasks(uids);
+      let progressed = false;
+      for (const task of tasks) {
+        if (!pending.has(task.uid) || task.status === 'enqueued' || task.status === 'processing') {
+          continue;
+        }
+        progressed = true;
+        if (task.status === 'succeeded') {
+          pending.delete(task.uid);
+          report.succeeded += 1;
+          continue;
+        }
+        fail(task.uid, { message: 'Meilisearch task failed', type: task.type, status: task.status, detail: task.error?.message ?? null });
+      }
+      // The page asks for exactly these uids, so a uid it leaves out was pruned
+      // or never existed and will not show up on a later poll either.
+      const returned = new Set(tasks.map((task) => task.uid));
+      for (const uid of uids.filter((candidate) => !returned.has(candidate))) {
+        progressed = true;
+        fail(uid, { message: 'Meilisearch task not found', detail: null });
+      }
+      if (pending.size === 0) {
+        break;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for ${pending.size} Meilisearch task(s)`);
+      }
+      wait = progressed ? TASK_POLL_MIN_MS : Math.min(TASK_POLL_MAX_MS, wait * 2);
+      await delay(wait);
+    }
+    report.failedFiles = [...failedFiles];
+    return report;
+  };
+
+  const settle = () => {
+    if (!settling) {
+      settling = poll().finally(() => {
+        settling = null;
+      });
+    }
+    return settling;
+  };
+
+  return { track, settle, pending: () => pending.size };
+}
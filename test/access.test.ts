@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import type http from 'node:http';
+import process from 'node:process';
+import { Readable } from 'node:stream';
+import { test } from 'node:test';
+
+import { accessConfigFromEnv, clientAddress, createAccess, type AccessConfig } from '../src/access.js';
+
+function config(extra: Partial<AccessConfig> = {}): AccessConfig {
+  return { readTokens: ['reader'], adminTokens: ['admin'], corsOrigins: [], rateLimit: 0, maxBodyBytes: 16, ticketTtlMs: 60_000, ...extra };
+}
+
+function request(headers: Record<string, string> = {}, method = 'GET', body?: string): http.IncomingMessage {
+  const req = Readable.from(body === undefined ? [] : [Buffer.from(body)]) as unknown as http.IncomingMessage;
+  return Object.assign(req, { headers, method, socket: { remoteAddress: '10.0.0.1' } });
+}
+
+function response(): http.ServerResponse & { headers: Record<string, string> } {
+  const headers: Record<string, string> = {};
+  return { headers, setHeader: (name: string, value: string) => { headers[name] = value; } } as unknown as http.ServerResponse & { headers: Record<string, string> };
+}
+
+test('reads token lists and limits from the environment', () => {
+  Object.assign(process.env, { RAG_SERVER_READ_TOKENS: ' a, b ,', RAG_SERVER_ADMIN_TOKENS: '', RAG_SERVER_RATE_LIMIT: '5' });
+  const parsed = accessConfigFromEnv();
+  assert.deepEqual([parsed.readTokens, parsed.adminTokens, parsed.rateLimit], [['a', 'b'], [], 5]);
+});
+
+test('identifies clients by address when no tokens are configured', () => {
+  const access = createAccess(config({ readTokens: [], adminTokens: [] }));
+  assert.equal(access.enabled, false);
+  assert.equal(access.authorize(request(), 'admin'), 'ip:10.0.0.1');
+  assert.equal(clientAddress(request()), 'ip:10.0.0.1');
+});
+
+test('requires a known bearer token and an admin token for admin routes', () => {
+  const access = createAccess(config());
+  assert.throws(() => access.authorize(request(), 'read'), { status: 401, headers: { 'www-authenticate': 'Bearer' } });
+  assert.throws(() => access.authorize(request({ authorization: 'Bearer nope' }), 'read'), { status: 401, message: 'Invalid bearer token' });
+  assert.throws(() => access.authorize(request({ authorization: 'Bearer reader' }), 'admin'), { status: 403 });
+  const reader = access.authorize(request({ authorization: 'bearer reader' }), 'read');
+  const admin = access.authorize(request({ authorization: 'Bearer admin' }), 'read');
+  assert.match(reader, /^token:[0-9a-f]{16}$/);
+  assert.notEqual(reader, admin);
+  assert.equal(access.authorize(request({ authorization: 'Bearer admin' }), 'admin'), admin);
+});
+
+test('rate-limits each client with a token bucket', () => {
+  const access = createAccess(config({ rateLimit: 2 }));
+  const res = response();
+  access.limit('ip:a', res);
+  access.limit('ip:a', res);
+  assert.deepEqual(res.headers, { 'x-ratelimit-limit': '2', 'x-ratelimit-remaining': '0' });
+  assert.throws(() => access.limit('ip:a', res), (error: { status: number; headers: Record<string, string> }) => error.status === 429 && Number(error.headers['retry-after']) > 0);
+  assert.doesNotThrow(() => access.limit('ip:b', response()));
+});
+
+test('limits authenticated callers per token and failed attempts per address', () => {
+  const access = createAccess(config({ rateLimit: 1 }));
+  const reader = request({ authorization: 'Bearer reader' });
+  const admin = request({ authorization: 'Bearer admin' });
+  assert.equal(access.admit(reader, response(), () => access.authenticate(reader)).role, 'read');
+  assert.equal(access.admit(admin, response(), () => access.authenticate(admin, 'admin')).role, 'admin');
+  assert.throws(() => access.admit(reader, response(), () => access.authenticate(reader)), { status: 429 });
+
+  const stranger = request({ authorization: 'Bearer nope' });
+  assert.throws(() => access.admit(stranger, response(), () => access.authenticate(stranger)), { status: 401 });
+  assert.throws(() => access.admit(stranger, response(), () => access.authenticate(stranger)), { status: 429 });
+});
+
+test('answers CORS preflight only for allowed origins', () => {
+  const access = createAccess(config({ corsOrigins: ['https://app.example'] }));
+  const res = response();
+  assert.equal(access.cors(request({ origin: 'https://app.example' }, 'OPTIONS'), res), true);
+  assert.equal(res.headers['access-control-allow-origin'], 'https://app.example');
+  assert.match(res.headers['access-control-allow-headers'], /authorization/);
+  assert.throws(() => access.cors(request({ origin: 'https://evil.example' }, 'OPTIONS'), response()), { status: 403 });
+  const plain = response();
+  assert.equal(access.cors(request({ origin: 'https://evil.example' }), plain), false);
+  assert.deepEqual(plain.headers, {});
+});
+
+test('rejects request bodies above the size limit', async () => {
+  const access = createAccess(config());
+  assert.equal(await access.readBody(request({}, 'POST', '{"q":"x"}')), '{"q":"x"}');
+  await assert.rejects(access.readBody(request({ 'content-length': '100' }, 'POST', 'x')), { status: 413 });
+  await assert.rejects(access.readBody(request({}, 'POST', 'x'.repeat(17))), { status: 413 });
+});
+
+test('issues event tickets bound to a scope and client', (t) => {
+  const access = createAccess(config({ ticketTtlMs: 1_000 }));
+  const ticket = access.issueTicket('token:abc', '/events');
+  assert.equal(access.redeemTicket(ticket.token, '/events'), 'token:abc');
+  assert.throws(() => access.redeemTicket(ticket.token, '/reindex'), { status: 403 });
+  assert.throws(() => access.redeemTicket(null, '/events'), { status: 401 });
+  assert.throws(() => access.redeemTicket(`${ticket.token}x`, '/events'), { status: 401 });
+  assert.throws(() => createAccess(config()).redeemTicket(ticket.token, '/events'), { status: 401, message: 'Invalid ticket' });
+
+  t.mock.timers.enable({ apis: ['Date'], now: Date.now() + 1_001 });
+  assert.throws(() => access.redeemTicket(ticket.token, '/events'), { status: 401, message: 'Ticket expired' });
+});
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import process from 'node:process';
+import { after, before, test } from 'node:test';
+
+let dir: string;
+let cache: typeof import('../src/cache.js');
+
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rag-cache-'));
+  Object.assign(process.env, { RAG_EMBED_CACHE_DIR: dir, RAG_EMBED_CACHE_MAX_BYTES: '48' });
+  cache = await import('../src/cache.js');
+});
+
+after(() => fs.rm(dir, { recursive: true, force: true }));
+
+test('keys entries on both the model and the text', () => {
+  const key = cache.cacheKey('ollama:nomic', 'const a = 1;');
+  assert.match(key, /^[0-9a-f]{64}$/);
+  assert.equal(cache.cacheKey('ollama:nomic', 'const a = 1;'), key);
+  assert.notEqual(cache.cacheKey('openai:small', 'const a = 1;'), key);
+  assert.notEqual(cache.cacheKey('ollama:nomic', 'const a = 2;'), key);
+});
+
+test('returns misses as undefined and hits with the exact stored values', async () => {
+  const vector = [0.1, 1 / 3, -2.718281828459045];
+  const [hit, miss] = [cache.cacheKey('m', 'hit'), cache.cacheKey('m', 'miss')];
+  assert.deepEqual(await cache.readCached([hit, miss]), [undefined, undefined]);
+  await cache.writeCached([{ key: hit, vector }]);
+  assert.deepEqual(await cache.readCached([hit, miss]), [vector, undefined]);
+  await cache.pruneCache(0);
+});
+
+test('evicts the least recently used entries above the size cap', async () => {
+  const [a, b, c, d] = ['a', 'b', 'c', 'd'].map((text) => cache.cacheKey('m', text));
+  await cache.writeCached([{ key: a, vector: [1, 1] }, { key: b, vector: [2, 2] }, { key: c, vector: [3, 3] }]);
+  await cache.readCached([a]);
+  await cache.writeCached([{ key: d, vector: [4, 4] }]);
+  assert.deepEqual(await cache.readCached([a, b, c, d]), [[1, 1], undefined, [3, 3], [4, 4]]);
+});
+
+test('prunes down to the requested size and reports what is left', async () => {
+  assert.deepEqual(await cache.pruneCache(16), { removed: 2, entries: 1, bytes: 16 });
+  assert.deepEqual(await cache.pruneCache(0), { removed: 1, entries: 0, bytes: 0 });
+  const leftover = await fs.readdir(dir, { recursive: true });
+  assert.deepEqual(leftover.filter((name) => name.endsWith('.bin')), []);
+});
+
+test('drops truncated and empty entries as misses', async () => {
+  const [short, empty] = [cache.cacheKey('m', 'short'), cache.cacheKey('m', 'empty')];
+  await cache.writeCached([{ key: short, vector: [1] }, { key: empty, vector: [2] }]);
+  const file = (key: string) => path.join(dir, key.slice(0, 2), `${key.slice(2)}.bin`);
+  await fs.truncate(file(short), 5);
+  await fs.truncate(file(empty), 0);
+  assert.deepEqual(await cache.readCached([short, empty]), [undefined, undefined]);
+  await assert.rejects(fs.stat(file(short)), { code: 'ENOENT' });
+  await assert.rejects(fs.stat(file(empty)), { code: 'ENOENT' });
+  assert.deepEqual(await cache.pruneCache(0), { removed: 0, entries: 0, bytes: 0 });
+});
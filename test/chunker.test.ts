@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { chunkFile, chunkerId } from '../src/chunker.js';
+
+function fn(name: string, bodyLines: number): string[] {
+  return [`export function ${name}() {`, ...Array.from({ length: bodyLines }, (_, i) => `  step(${i});`), '}'];
+}
+
+test('splits TypeScript files at top-level declarations', () => {
+  const text = [...fn('alpha', 12), ...fn('beta', 12)].join('\n');
+  const chunks = chunkFile('src/a.ts', text);
+  assert.deepEqual(chunks.map((chunk) => [chunk.start, chunk.end, chunk.symbolName, chunk.symbolKind]), [
+    [1, 14, 'alpha', 'function'],
+    [15, 28, 'beta', 'function']
+  ]);
+});
+
+test('labels merged small sections by their first symbol and keeps every name', () => {
+  const text = ["import { step } from './step.js';", '', ...fn('alpha', 2), ...fn('beta', 2), ...fn('gamma', 12)].join('\n');
+  const [merged, gamma] = chunkFile('src/a.ts', text);
+  assert.equal(merged.symbolName, 'alpha');
+  assert.equal(merged.symbolKind, 'function');
+  assert.deepEqual(merged.symbolNames, ['alpha', 'beta']);
+  assert.deepEqual([merged.start, merged.end], [1, 10]);
+  assert.deepEqual([gamma.symbolName, gamma.symbolNames], ['gamma', ['gamma']]);
+});
+
+test('attaches leading comments to the declaration they document', () => {
+  const text = ['/**', ' * Docs.', ' */', ...fn('alpha', 12)].join('\n');
+  const [chunk] = chunkFile('src/a.ts', text);
+  assert.equal(chunk.start, 1);
+  assert.equal(chunk.symbolName, 'alpha');
+});
+
+test('splits oversized sections into overlapping windows that keep the symbol', () => {
+  const text = fn('huge', 40).join('\n');
+  const chunks = chunkFile('src/a.ts', text, 20, 5);
+  assert.deepEqual(chunks.map((chunk) => [chunk.start, chunk.end]), [[1, 20], [16, 35], [31, 42]]);
+  assert.ok(chunks.every((chunk) => chunk.symbolName === 'huge'));
+});
+
+test('ignores headings inside fenced code blocks in markdown', () => {
+  const filler = Array.from({ length: 10 }, (_, i) => `line ${i}`);
+  const text = ['# Intro', ...filler, '```', '# not a heading', '```', '## Usage', ...filler].join('\n');
+  const chunks = chunkFile('README.md', text);
+  assert.deepEqual(chunks.map((chunk) => [chunk.symbolName, chunk.symbolKind]), [['Intro', 'h1'], ['Usage', 'h2']]);
+});
+
+test('falls back to line windows for unknown extensions', () => {
+  const text = Array.from({ length: 30 }, (_, i) => `row ${i}`).join('\n');
+  const chunks = chunkFile('data.txt', text, 20, 5);
+  assert.deepEqual(chunks.map((chunk) => [chunk.start, chunk.end, chunk.symbolName]), [[1, 20, undefined], [16, 30, undefined]]);
+});
+
+test('keys the chunker id on the minimum section size', () => {
+  assert.equal(chunkerId(), 'symbols:10');
+});
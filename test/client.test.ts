@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, test } from 'node:test';
+
+import { createClient, isApiError } from '../src/client.js';
+import { startStub, type Stub, type StubReply, type StubRequest } from './stub.js';
+
+let stub: Stub;
+let reply: (request: StubRequest) => StubReply;
+
+before(async () => {
+  stub = await startStub((request) => reply(request));
+});
+
+after(() => stub.close());
+
+beforeEach(() => {
+  stub.requests.length = 0;
+  reply = () => ({ body: { hits: [] } });
+});
+
+test('posts search bodies as JSON with the bearer token', async () => {
+  reply = () => ({ body: { query: 'auth', mode: 'rrf', limit: 5, processingTimeMs: 1, hits: [] } });
+  const client = createClient({ baseUrl: `${stub.url}/`, token: 's3cret', headers: { 'x-trace': '1' } });
+  const result = await client.search({ query: 'auth', mode: 'rrf', limit: 5, path: ['src/**'] });
+  assert.equal(result.mode, 'rrf');
+  const [request] = stub.requests;
+  assert.deepEqual([request.method, request.url], ['POST', '/search']);
+  assert.deepEqual(request.body, { query: 'auth', mode: 'rrf', limit: 5, path: ['src/**'] });
+  assert.equal(request.headers.authorization, 'Bearer s3cret');
+  assert.equal(request.headers['content-type'], 'application/json');
+  assert.equal(request.headers['x-trace'], '1');
+});
+
+test('encodes query parameters, repeats arrays and drops unset values', async () => {
+  const client = createClient({ baseUrl: stub.url });
+  await client.similar({ file: 'src/a b&c.ts', start: 3, path: ['src/**', 'lib/*'], filter: undefined, repo: 'x' });
+  await client.reindex('my repo');
+  await client.reindexStatus('job/1?');
+  await client.reindex();
+  assert.deepEqual(stub.requests.map((request) => `${request.method} ${request.url}`), [
+    'GET /similar?file=src%2Fa+b%26c.ts&start=3&path=src%2F**&path=lib%2F*&repo=x',
+    'POST /reindex?repo=my+repo',
+    'GET /reindex/job%2F1%3F',
+    'POST /reindex'
+  ]);
+  assert.equal(stub.requests[0].headers.authorization, undefined);
+});
+
+test('maps error responses to ApiError with status and body', async () => {
+  reply = () => ({ status: 400, body: { error: 'limit must be a positive integer' } });
+  const client = createClient({ baseUrl: stub.url });
+  await assert.rejects(client.search({ query: 'x', limit: -1 }), (error: unknown) => {
+    assert.ok(isApiError(error));
+    assert.equal(error.status, 400);
+    assert.deepEqual(error.body, { error: 'limit must be a positive integer' });
+    assert.equal(error.message, 'POST /search failed (400): limit must be a positive integer');
+    return true;
+  });
+
+  reply = () => ({ status: 502, body: 'bad gateway' });
+  await assert.rejects(client.health(), (error: unknown) => isApiError(error) && error.status === 502 && error.body === null);
+  assert.equal(isApiError(new Error('plain')), false);
+});
+
+test('polls a reindex job until it finishes', async () => {
+  let polls = 0;
+  reply = () => {
+    polls += 1;
+    return { body: { id: 'j1', status: polls < 3 ? 'running' : 'completed' } };
+  };
+  const job = await createClient({ baseUrl: stub.url }).waitForReindex('j1', { intervalMs: 1 });
+  assert.equal(job.status, 'completed');
+  assert.equal(stub.requests.length, 3);
+});
+
+test('builds an events URL with a ticket only when a token is set', async () => {
+  reply = () => ({ body: { token: 'tkt.sig', expiresAt: new Date().toISOString() } });
+  assert.equal(await createClient({ baseUrl: stub.url }).eventsUrl(), `${stub.url}/events`);
+  assert.equal(await createClient({ baseUrl: stub.url, token: 'r' }).eventsUrl(), `${stub.url}/events?token=tkt.sig`);
+  assert.deepEqual(stub.requests.map((request) => `${request.method} ${request.url}`), ['POST /events/token']);
+});
@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { test } from 'node:test';
+
+import { defaultRepoConfig, loadRepoConfigs, repoIgnorePatterns, type RepoConfig } from '../src/config.js';
+
+async function configFile(t: { after: (fn: () => Promise<void>) => void }, repositories: unknown): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rag-config-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  const file = path.join(dir, 'repos.json');
+  await fs.writeFile(file, JSON.stringify({ repositories }));
+  return file;
+}
+
+test('resolves repositories relative to the config file and fills defaults', async (t) => {
+  const file = await configFile(t, [
+    { root: 'app' },
+    { name: 'docs', root: '/srv/docs', index: 'docs_v2', ignore: ['*.pdf'], chunkLines: 80, chunkOverlap: 10, stateFile: 'state/rag.json' }
+  ]);
+  const dir = path.dirname(file);
+  const defaults = defaultRepoConfig();
+  assert.deepEqual(await loadRepoConfigs(file), [
+    {
+      name: 'app',
+      root: path.join(dir, 'app'),
+      indexUid: 'app',
+      ignore: [],
+      chunkLines: defaults.chunkLines,
+      chunkOverlap: defaults.chunkOverlap,
+      stateFile: path.join(dir, 'app/.rag_state.json')
+    },
+    { name: 'docs', root: '/srv/docs', indexUid: 'docs_v2', ignore: ['*.pdf'], chunkLines: 80, chunkOverlap: 10, stateFile: '/srv/docs/state/rag.json' }
+  ]);
+});
+
+test('rejects invalid repository configs', async (t) => {
+  const cases: Array<[unknown, RegExp]> = [
+    [[], /"repositories" must be a non-empty array/],
+    [{ root: 'a' }, /"repositories" must be a non-empty array/],
+    [[{ name: 'a' }], /repositories\[0\]\.root is required/],
+    [[{ root: 'a' }, { root: 'b', index: 'bad uid' }], /repositories\[1\]\.index must match/],
+    [[{ root: 'my repo' }], /repositories\[0\]\.index must match .*: my repo/],
+    [[{ root: 'a', ignore: 'dist' }], /repositories\[0\]\.ignore must be an array of strings/],
+    [[{ root: 'a', ignore: ['dist', 1] }], /repositories\[0\]\.ignore must be an array of strings/],
+    [[{ root: 'x/a' }, { root: 'y/a', index: 'other' }], /duplicate repository name "a"/],
+    [[{ root: 'a', index: 'shared' }, { root: 'b', index: 'shared' }], /duplicate index uid "shared"/],
+    [[{ root: 'a', chunkLines: 0 }], /repositories\[0\] \("a"\): chunkLines must be a positive integer/],
+    [[{ root: 'a', chunkLines: '80' }], /repositories\[0\] \("a"\): chunkLines must be a positive integer/],
+    [[{ root: 'a' }, { name: 'docs', root: 'b', chunkLines: 40, chunkOverlap: 40 }], /repositories\[1\] \("docs"\): chunkOverlap must be an integer from 0 to chunkLines - 1 \(39\)/],
+    [[{ root: 'a', chunkOverlap: -1 }], /repositories\[0\] \("a"\): chunkOverlap must be an integer/]
+  ];
+  for (const [repositories, message] of cases) {
+    await assert.rejects(loadRepoConfigs(await configFile(t, repositories)), message);
+  }
+});
+
+test('ignores the state file and its siblings only when it is inside the root', () => {
+  const repo: RepoConfig = { ...defaultRepoConfig(), root: '/srv/app', ignore: ['dist/'], stateFile: '/srv/app/state/rag.json' };
+  assert.deepEqual(repoIgnorePatterns(repo), ['dist/', '/state/rag.json', '/state/rag.json.tmp', '/state/rag.json.lock']);
+  assert.deepEqual(repoIgnorePatterns({ ...repo, stateFile: '/var/lib/rag.json' }), ['dist/']);
+});
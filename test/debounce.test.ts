@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { createDebouncer } from '../src/debounce.js';
+
+test('runs once after a quiet period', (t) => {
+  t.mock.timers.enable({ apis: ['setTimeout', 'Date'] });
+  let runs = 0;
+  const debouncer = createDebouncer(() => runs++, 100, 1000);
+  debouncer.schedule();
+  t.mock.timers.tick(60);
+  debouncer.schedule();
+  t.mock.timers.tick(60);
+  assert.equal(runs, 0);
+  t.mock.timers.tick(40);
+  assert.equal(runs, 1);
+  t.mock.timers.tick(1000);
+  assert.equal(runs, 1);
+});
+
+test('flushes a steady stream of events by the max wait', (t) => {
+  t.mock.timers.enable({ apis: ['setTimeout', 'Date'] });
+  const runs: number[] = [];
+  const debouncer = createDebouncer(() => runs.push(Date.now()), 100, 250);
+  for (let i = 0; i < 10; i += 1) {
+    debouncer.schedule();
+    t.mock.timers.tick(50);
+  }
+  assert.deepEqual(runs, [250, 500]);
+  t.mock.timers.tick(1000);
+  assert.deepEqual(runs, [250, 500]);
+});
+
+test('cancel drops the pending run and starts a new burst', (t) => {
+  t.mock.timers.enable({ apis: ['setTimeout', 'Date'] });
+  let runs = 0;
+  const debouncer = createDebouncer(() => runs++, 100, 150);
+  debouncer.schedule();
+  t.mock.timers.tick(90);
+  debouncer.cancel();
+  t.mock.timers.tick(500);
+  assert.equal(runs, 0);
+  debouncer.schedule();
+  t.mock.timers.tick(99);
+  assert.equal(runs, 0);
+  t.mock.timers.tick(1);
+  assert.equal(runs, 1);
+});
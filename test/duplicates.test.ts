@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { clusterPairs, findPairs, normalize, parseArgs, type Chunk } from '../src/duplicates.js';
+
+function chunk(filePath: string, startLine: number, endLine: number, values: number[]): Chunk {
+  return { id: `${filePath}:${startLine}`, filePath, startLine, endLine, vector: normalize(values)! };
+}
+
+const chunks = [
+  chunk('src/a.ts', 1, 20, [1, 0, 0, 0]),
+  chunk('src/b.ts', 40, 60, [1, 0.02, 0, 0]),
+  chunk('src/a.ts', 10, 30, [1, 0, 0, 0]),
+  chunk('src/a.ts', 200, 220, [1, 0.01, 0, 0]),
+  chunk('src/c.ts', 1, 20, [0, 1, 0, 0]),
+  chunk('src/d.ts', 1, 20, [0, 0, 1, 1])
+];
+
+function locations(pairs: Array<{ a: number; b: number }>): string[] {
+  const at = (index: number) => `${chunks[index].filePath}:${chunks[index].startLine}`;
+  return pairs.map((pair) => `${at(pair.a)} ~ ${at(pair.b)}`).sort();
+}
+
+test('reports pairs above the threshold across files and far apart within a file', () => {
+  const pairs = findPairs(chunks, parseArgs(['--threshold', '0.95', '--min-gap', '20']));
+  assert.deepEqual(locations(pairs), [
+    'src/a.ts:1 ~ src/a.ts:200',
+    'src/a.ts:1 ~ src/b.ts:40',
+    'src/a.ts:10 ~ src/a.ts:200',
+    'src/b.ts:40 ~ src/a.ts:10',
+    'src/b.ts:40 ~ src/a.ts:200'
+  ]);
+  assert.ok(pairs.every((pair) => pair.a < pair.b && pair.similarity >= 0.95 && pair.similarity <= 1 + 1e-6));
+});
+
+test('never pairs a chunk with itself or with an overlapping chunk of the same file', () => {
+  const pairs = findPairs([...chunks, chunks[0]], parseArgs(['--threshold', '0.5', '--min-gap', '0']));
+  const keys = pairs.map((pair) => `${pair.a}:${pair.b}`);
+  assert.ok(pairs.every((pair) => pair.a !== pair.b));
+  assert.ok(!keys.includes('0:2'), 'src/a.ts:1-20 overlaps src/a.ts:10-30');
+  assert.ok(!keys.includes('0:6'), 'a repeated chunk covers the same lines');
+  assert.ok(keys.includes('1:6'), 'the repeated chunk is still compared with other files');
+});
+
+test('groups connected pairs into clusters ordered by similarity', () => {
+  const clusters = clusterPairs(chunks, findPairs(chunks, parseArgs(['--threshold', '0.95'])));
+  assert.equal(clusters.length, 1);
+  assert.deepEqual(clusters[0].members.map((member) => `${member.filePath}:${member.startLine}`), ['src/a.ts:1', 'src/a.ts:10', 'src/a.ts:200', 'src/b.ts:40']);
+  assert.equal(clusters[0].size, 4);
+  assert.ok(clusters[0].pairs.every((pair, index, all) => index === 0 || all[index - 1].similarity >= pair.similarity));
+});
+
+test('rejects --index without a value instead of using the default index', () => {
+  assert.throws(() => parseArgs(['--index']), /Expected index uid after --index/);
+  assert.throws(() => parseArgs(['--index', '--json']), /Expected index uid after --index/);
+  assert.equal(parseArgs(['--index', 'other']).index, 'other');
+});
@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import process from 'node:process';
+import { after, before, test } from 'node:test';
+
+import { fakeVector, prompt, startStub, type Stub } from './stub.js';
+
+let stub: Stub;
+let embed: typeof import('../src/embed.js').embed;
+
+before(async () => {
+  stub = await startStub((request) => (request.url === '/api/embeddings'
+    ? { body: { embedding: fakeVector(prompt(request)) } }
+    : { status: 404, body: '404 page not found' }));
+  Object.assign(process.env, { RAG_EMBED_BACKEND: 'ollama', OLLAMA_BASE_URL: stub.url, RAG_OLLAMA_BATCH_SIZE: '8' });
+  ({ embed } = await import('../src/embed.js'));
+});
+
+after(() => stub.close());
+
+test('falls back to /api/embeddings when the batch endpoint is missing', async () => {
+  const texts = ['one', 'two', 'three'];
+  assert.deepEqual(await embed(texts), texts.map(fakeVector));
+  assert.deepEqual(stub.requests.map((request) => request.url), ['/api/embed', '/api/embeddings', '/api/embeddings', '/api/embeddings']);
+});
+
+test('remembers that batching is unsupported', async () => {
+  stub.requests.length = 0;
+  assert.deepEqual(await embed('four'), fakeVector('four'));
+  assert.deepEqual(stub.requests.map((request) => request.url), ['/api/embeddings']);
+});
@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import process from 'node:process';
+import { after, before, beforeEach, test } from 'node:test';
+
+import { fakeVector, inputs, startStub, type Stub } from './stub.js';
+
+let stub: Stub;
+let failures = 0;
+let missingModel = false;
+let embed: typeof import('../src/embed.js').embed;
+
+before(async () => {
+  stub = await startStub((request) => {
+    if (failures > 0) {
+      failures -= 1;
+      return { status: 503, body: { error: 'busy' } };
+    }
+    if (missingModel) {
+      return { status: 404, body: { error: 'model "nomic-embed-text" not found, try pulling it first' } };
+    }
+    if (request.url === '/api/embed') {
+      return { body: { embeddings: inputs(request).map(fakeVector) } };
+    }
+    return { status: 404, body: {} };
+  });
+  Object.assign(process.env, {
+    RAG_EMBED_BACKEND: 'ollama',
+    OLLAMA_BASE_URL: stub.url,
+    RAG_OLLAMA_BATCH_SIZE: '2',
+    RAG_EMBED_RETRIES: '2',
+    RAG_EMBED_RETRY_BASE_MS: '1',
+    RAG_EMBED_MAX_CHARS: '50'
+  });
+  ({ embed } = await import('../src/embed.js'));
+});
+
+after(() => stub.close());
+
+beforeEach(() => {
+  stub.requests.length = 0;
+  failures = 0;
+  missingModel = false;
+});
+
+test('sends batches to /api/embed and keeps input order', async () => {
+  const texts = ['a', 'bb', 'ccc', 'dddd', 'eeeee'];
+  assert.deepEqual(await embed(texts), texts.map(fakeVector));
+  assert.deepEqual(stub.requests.map((request) => request.url), ['/api/embed', '/api/embed', '/api/embed']);
+  assert.deepEqual(stub.requests.map((request) => inputs(request).length).sort(), [1, 2, 2]);
+});
+
+test('retries 5xx responses with backoff', async (t) => {
+  const warn = t.mock.method(console, 'warn', () => {});
+  failures = 2;
+  assert.deepEqual(await embed(['retry me']), [fakeVector('retry me')]);
+  assert.equal(stub.requests.length, 3);
+  assert.equal(warn.mock.callCount(), 2);
+});
+
+test('gives up once retries are exhausted', async (t) => {
+  t.mock.method(console, 'warn', () => {});
+  failures = 10;
+  await assert.rejects(embed(['never']), /Ollama embedding failed: 503/);
+  assert.equal(stub.requests.length, 3);
+});
+
+test('truncates inputs longer than the configured limit with a warning', async (t) => {
+  const warn = t.mock.method(console, 'warn', () => {});
+  const text = 'x'.repeat(80);
+  assert.deepEqual(await embed([text]), [fakeVector('x'.repeat(50))]);
+  assert.equal(inputs(stub.requests[0])[0].length, 50);
+  assert.match(String(warn.mock.calls[0].arguments[0]), /Embedding input truncated/);
+});
+
+test('reports a missing model instead of falling back to /api/embeddings', async () => {
+  missingModel = true;
+  await assert.rejects(embed(['x']), /Ollama embedding failed: 404 .*model "nomic-embed-text" not found/);
+  assert.deepEqual(stub.requests.map((request) => request.url), ['/api/embed']);
+  missingModel = false;
+  assert.deepEqual(await embed(['y']), [fakeVector('y')]);
+  assert.deepEqual(stub.requests.map((request) => request.url), ['/api/embed', '/api/embed']);
+});
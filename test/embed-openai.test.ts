@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import process from 'node:process';
+import { after, before, beforeEach, test } from 'node:test';
+
+import { fakeVector, inputs, startStub, type Stub } from './stub.js';
+
+let stub: Stub;
+let failures = 0;
+let malformed = false;
+let embedding: typeof import('../src/embed.js');
+
+before(async () => {
+  stub = await startStub((request) => {
+    if (failures > 0) {
+      failures -= 1;
+      return { status: 429, body: { error: 'slow down' } };
+    }
+    const data = inputs(request).map((text, index) => ({ index, embedding: fakeVector(text) }));
+    return { body: { data: malformed ? data.slice(1) : data.reverse() } };
+  });
+  Object.assign(process.env, {
+    RAG_EMBED_BACKEND: 'openai',
+    RAG_OPENAI_BASE_URL: `${stub.url}/v1/`,
+    RAG_OPENAI_API_KEY: 'secret',
+    RAG_OPENAI_MODEL: 'mock-embed',
+    RAG_OPENAI_DIMENSIONS: '2',
+    RAG_OPENAI_BATCH_SIZE: '3',
+    RAG_EMBED_RETRIES: '2',
+    RAG_EMBED_RETRY_BASE_MS: '1'
+  });
+  embedding = await import('../src/embed.js');
+});
+
+after(() => stub.close());
+
+beforeEach(() => {
+  stub.requests.length = 0;
+  failures = 0;
+  malformed = false;
+});
+
+test('posts batches to /embeddings with model, dimensions and bearer key', async () => {
+  await embedding.embed(['a', 'b', 'c', 'd']);
+  assert.deepEqual(stub.requests.map((request) => request.url), ['/v1/embeddings', '/v1/embeddings']);
+  const bodies = [...stub.requests].sort((a, b) => inputs(b).length - inputs(a).length).map((request) => request.body);
+  assert.deepEqual(bodies, [
+    { model: 'mock-embed', input: ['a', 'b', 'c'], dimensions: 2 },
+    { model: 'mock-embed', input: ['d'], dimensions: 2 }
+  ]);
+  assert.ok(stub.requests.every((request) => request.headers.authorization === 'Bearer secret'));
+});
+
+test('orders vectors by the index field rather than response order', async () => {
+  const texts = ['x', 'yy', 'zzz', 'wwww'];
+  assert.deepEqual(await embedding.embed(texts), texts.map(fakeVector));
+});
+
+test('shares the retry policy on 429 responses', async (t) => {
+  t.mock.method(console, 'warn', () => {});
+  failures = 1;
+  assert.deepEqual(await embedding.embed(['again']), [fakeVector('again')]);
+  assert.equal(stub.requests.length, 2);
+});
+
+test('rejects responses with a missing entry', async () => {
+  malformed = true;
+  await assert.rejects(embedding.embed(['p', 'q']), /missing data array/);
+});
+
+test('includes dimensions in the model id', () => {
+  assert.equal(embedding.embeddingModelId(), 'openai:mock-embed@2');
+});
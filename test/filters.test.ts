@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { buildFilter, compileFilter, globToFilter } from '../src/filters.js';
+import { pathMetadata } from '../src/fsutil.js';
+
+test('matches plain paths as a file or a directory prefix', () => {
+  assert.equal(globToFilter('./src/lib/'), '(filePath = "src/lib" OR pathSegments = "src/lib")');
+});
+
+test('translates supported glob shapes into metadata filters', () => {
+  assert.equal(globToFilter('src/**'), 'pathSegments = "src"');
+  assert.equal(globToFilter('src/*'), 'directory = "src"');
+  assert.equal(globToFilter('*'), 'directory = "."');
+  assert.equal(globToFilter('**/*'), 'filePath EXISTS');
+  assert.equal(globToFilter('*.TS'), 'extension = "ts"');
+  assert.equal(globToFilter('src/**/*.ts'), '(extension = "ts" AND pathSegments = "src")');
+  assert.equal(globToFilter('src/*.ts'), '(extension = "ts" AND directory = "src")');
+});
+
+test('matches multi-dot suffixes through the suffixes field', () => {
+  assert.equal(globToFilter('*.test.ts'), 'suffixes = "test.ts"');
+  assert.equal(globToFilter('**/*.Test.ts'), 'suffixes = "test.ts"');
+  assert.equal(globToFilter('src/**/*.d.ts'), '(suffixes = "d.ts" AND pathSegments = "src")');
+  assert.throws(() => globToFilter('*.test.'), /Unsupported path pattern/);
+  assert.throws(() => globToFilter('*..ts'), /Unsupported path pattern/);
+  assert.deepEqual(pathMetadata('src/a.test.ts').suffixes, ['test.ts', 'ts']);
+  assert.deepEqual(pathMetadata('.eslintrc.json').suffixes, ['eslintrc.json', 'json']);
+  assert.deepEqual(pathMetadata('Makefile').suffixes, []);
+});
+
+test('rejects empty and unsupported patterns', () => {
+  assert.throws(() => globToFilter(' / '), /must not be empty/);
+  assert.throws(() => globToFilter('src/*/lib/*.ts'), /Unsupported path pattern/);
+  assert.throws(() => globToFilter('src/foo*.ts'), /Unsupported path pattern/);
+});
+
+test('quotes values that contain quotes and backslashes', () => {
+  assert.equal(globToFilter('a"b\\c'), '(filePath = "a\\"b\\\\c" OR pathSegments = "a\\"b\\\\c")');
+});
+
+test('combines paths, languages, excludes and a raw filter', () => {
+  assert.equal(buildFilter({
+    paths: ['src/**', 'lib/*'],
+    languages: ['ts', ' '],
+    excludes: ['**/*.md'],
+    filter: ' symbolKind = "class" '
+  }), '(pathSegments = "src" OR directory = "lib") AND language IN ["typescript"] AND NOT extension = "md" AND (symbolKind = "class")');
+});
+
+test('returns undefined when nothing is filtered', () => {
+  assert.equal(buildFilter({ paths: [''], languages: [], excludes: [' '] }), undefined);
+});
+
+function doc(filePath: string, extra: Record<string, unknown> = {}): Record<string, unknown> {
+  return { filePath, ...pathMetadata(filePath), ...extra };
+}
+
+const docs = [
+  doc('src/a.ts', { startLine: 1, symbolKind: 'function' }),
+  doc('src/lib/b.ts', { startLine: 40, symbolKind: 'class' }),
+  doc('docs/guide.md', { startLine: 12 }),
+  doc('README.md', { startLine: 1 })
+];
+
+function matching(expression: string): string[] {
+  const predicate = compileFilter(expression);
+  return docs.filter(predicate).map((item) => item.filePath as string);
+}
+
+test('evaluates generated path filters the same way as Meilisearch', () => {
+  assert.deepEqual(matching(buildFilter({ paths: ['src/**'] })!), ['src/a.ts', 'src/lib/b.ts']);
+  assert.deepEqual(matching(buildFilter({ paths: ['src/*'] })!), ['src/a.ts']);
+  assert.deepEqual(matching(buildFilter({ excludes: ['**/*.md'] })!), ['src/a.ts', 'src/lib/b.ts']);
+  assert.deepEqual(matching(buildFilter({ languages: ['md'], paths: ['*'] })!), ['README.md']);
+});
+
+test('evaluates multi-dot suffix filters against indexed metadata', () => {
+  const files = ['src/a.ts', 'src/a.test.ts', 'src/types.d.ts', 'test/b.test.ts'].map((filePath) => doc(filePath));
+  const select = (filter: string) => files.filter(compileFilter(filter)).map((item) => item.filePath);
+  assert.deepEqual(select(buildFilter({ paths: ['**/*.test.ts'] })!), ['src/a.test.ts', 'test/b.test.ts']);
+  assert.deepEqual(select(buildFilter({ paths: ['src/**'], excludes: ['*.test.ts', '*.d.ts'] })!), ['src/a.ts']);
+});
+
+test('supports comparison, range, IN and EXISTS operators', () => {
+  assert.deepEqual(matching('startLine > 10'), ['src/lib/b.ts', 'docs/guide.md']);
+  assert.deepEqual(matching('startLine 10 TO 40'), ['src/lib/b.ts', 'docs/guide.md']);
+  assert.deepEqual(matching('symbolKind NOT IN ["class"] AND symbolKind EXISTS'), ['src/a.ts']);
+  assert.deepEqual(matching('symbolKind NOT EXISTS'), ['docs/guide.md', 'README.md']);
+  assert.deepEqual(matching("extension != 'md'"), ['src/a.ts', 'src/lib/b.ts']);
+});
+
+test('binds AND tighter than OR and honours parentheses and NOT', () => {
+  assert.deepEqual(matching('extension = md OR extension = ts AND startLine > 10'), ['src/lib/b.ts', 'docs/guide.md', 'README.md']);
+  assert.deepEqual(matching('(extension = md OR extension = ts) AND startLine > 10'), ['src/lib/b.ts', 'docs/guide.md']);
+  assert.deepEqual(matching('NOT (directory = "." OR extension = ts)'), ['docs/guide.md']);
+});
+
+test('rejects malformed expressions', () => {
+  assert.throws(() => compileFilter('filePath = "open'), /Unterminated string/);
+  assert.throws(() => compileFilter('(extension = ts'), /Expected "\)"/);
+  assert.throws(() => compileFilter('extension ts'), /Unsupported filter condition/);
+  assert.throws(() => compileFilter('extension = ts )'), /Unexpected "\)"/);
+});
@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { existsSync } from 'node:fs';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import process from 'node:process';
+import { after, before, test } from 'node:test';
+
+import { fakeVector, inputs, startStub, type Stub } from './stub.js';
+
+type Indexer = typeof import('../src/indexer.js');
+type StoreModule = typeof import('../src/store.js');
+
+let stub: Stub;
+let root: string;
+let indexer: Indexer;
+let store: StoreModule;
+const events: Array<Record<string, unknown>> = [];
+const lockedDuringEmbed: boolean[] = [];
+const logger = (payload: Record<string, unknown>) => {
+  events.push(payload);
+};
+
+before(async () => {
+  stub = await startStub((request) => {
+    lockedDuringEmbed.push(existsSync(path.join(root, '.rag_state.json.lock')));
+    return { body: { embeddings: inputs(request).map(fakeVector) } };
+  });
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'rag-indexer-'));
+  await fs.mkdir(path.join(root, 'src'));
+  await fs.writeFile(path.join(root, 'src/a.ts'), 'export const a = 1;\n');
+  await fs.writeFile(path.join(root, 'src/b.ts'), 'export const b = 2;\n');
+  Object.assign(process.env, {
+    REPO_ROOT: root,
+    INDEX_UID: 'repo',
+    RAG_STORE: 'local',
+    RAG_EMBED_BACKEND: 'ollama',
+    OLLAMA_BASE_URL: stub.url,
+    RAG_EMBED_CACHE: 'off'
+  });
+  indexer = await import('../src/indexer.js');
+  store = await import('../src/store.js');
+});
+
+after(async () => {
+  await stub.close();
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+test('refuses an index built by another embedder and migrates it through a shadow index', async () => {
+  assert.equal((await indexer.indexOnce(logger, { wait: true })).indexedFiles, 2);
+  const identity = await store.getIndexIdentity('repo');
+  assert.ok(identity);
+
+  await store.setIndexIdentity({ model: 'ollama:old-model', dimensions: 3 }, 'repo');
+  await assert.rejects(indexer.indexOnce(logger, { wait: true }), /built with ollama:old-model \(3 dims\).*--migrate/);
+  assert.equal((await store.indexStats('repo'))?.numberOfDocuments, 2);
+
+  const summary = await indexer.indexOnce(logger, { migrate: true });
+  assert.deepEqual([summary.indexedFiles, summary.failedTasks], [2, 0]);
+  assert.deepEqual(await store.getIndexIdentity('repo'), identity);
+  assert.equal((await store.indexStats('repo'))?.numberOfDocuments, 2);
+  assert.equal(await store.indexStats('repo__build'), null);
+  assert.ok(events.some((event) => event.phase === 'migrate' && event.buildIndex === 'repo__build'));
+});
+
+test('rebuilds the watched index in a shadow index while the live one keeps serving', async () => {
+  const handle = await indexer.startWatcher(logger, {});
+  try {
+    const live: Array<Promise<number | undefined>> = [];
+    const seen: Array<[string, number]> = [];
+    const summary = await handle.rebuild({
+      onFile: (file, processed) => {
+        seen.push([file, processed]);
+        live.push(store.indexStats('repo').then((stats) => stats?.numberOfDocuments));
+      }
+    });
+    assert.equal(summary.indexedFiles, 2);
+    assert.deepEqual(seen.map(([, processed]) => processed), [1, 2]);
+    assert.deepEqual(await Promise.all(live), [2, 2]);
+    assert.equal((await store.indexStats('repo'))?.numberOfDocuments, 2);
+    assert.equal(await store.indexStats('repo__build'), null);
+  } finally {
+    await handle.close();
+  }
+});
+
+test('embeds a reindexed file before taking the manifest lock', async () => {
+  await fs.writeFile(path.join(root, 'src/c.ts'), 'export const c = 3;\n');
+  lockedDuringEmbed.length = 0;
+  const result = await indexer.reindexFile('src/c.ts', { wait: true }, logger);
+  assert.deepEqual(result, { file: 'src/c.ts', chunks: 1, failedTasks: 0 });
+  assert.ok(lockedDuringEmbed.length > 0);
+  assert.ok(lockedDuringEmbed.every((locked) => !locked));
+  const manifest = JSON.parse(await fs.readFile(path.join(root, '.rag_state.json'), 'utf8')) as { files: Record<string, unknown> };
+  assert.deepEqual(Object.keys(manifest.files).sort(), ['src/a.ts', 'src/b.ts', 'src/c.ts']);
+
+  await fs.rm(path.join(root, 'src/c.ts'));
+  assert.deepEqual(await indexer.reindexFile('src/c.ts', { wait: true }, logger), { file: 'src/c.ts', chunks: 0, failedTasks: 0 });
+  assert.equal(existsSync(path.join(root, '.rag_state.json.lock')), false);
+});
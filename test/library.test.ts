@@ -0,0 +1,27 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import process from 'node:process';
+import { after, before, test } from 'node:test';
+
+let root: string;
+
+before(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'rag-library-'));
+  delete process.env.MEILI_URL;
+  Object.assign(process.env, { REPO_ROOT: root, INDEX_UID: 'repo', RAG_STORE: 'local' });
+});
+
+after(() => fs.rm(root, { recursive: true, force: true }));
+
+test('loads the search entry point with a local store and no Meilisearch URL', async () => {
+  const { searchCode } = await import('../src/searchcore.js');
+  await assert.rejects(searchCode({ query: 'x', mode: 'keyword' }), /index "repo" does not exist/);
+});
+
+test('checks MEILI_URL when a Meilisearch request is made', async () => {
+  const meili = await import('../src/meili.js');
+  await assert.rejects(meili.enableVectorStore(), /MEILI_URL is required/);
+  await assert.rejects(meili.stats('repo'), /MEILI_URL is required/);
+});
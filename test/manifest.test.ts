@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import { once } from 'node:events';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import process from 'node:process';
+import { test } from 'node:test';
+import { setTimeout as delay } from 'node:timers/promises';
+
+import { withFileLock } from '../src/fsutil.js';
+import { emptyManifest, loadManifest, saveManifest, updateManifest } from '../src/manifest.js';
+
+const settings = { indexUid: 'repo', model: 'test' };
+const entry = { hash: 'h', mtimeMs: 1, size: 1, chunks: 1 };
+
+test('keeps entries written by concurrent updates of one state file', async (t) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rag-manifest-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  const file = path.join(dir, '.rag_state.json');
+  await saveManifest(file, emptyManifest(settings));
+
+  await Promise.all(['a.ts', 'b.ts', 'c.ts'].map((name) => updateManifest(file, settings, async (manifest) => {
+    await delay(5);
+    manifest.files[name] = entry;
+  })));
+
+  assert.deepEqual(Object.keys((await loadManifest(file, settings)).files).sort(), ['a.ts', 'b.ts', 'c.ts']);
+  await assert.rejects(fs.stat(`${file}.lock`), { code: 'ENOENT' });
+});
+
+test('waits for a lock held by another writer before saving', async (t) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rag-manifest-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  const file = path.join(dir, '.rag_state.json');
+  const order: string[] = [];
+  const held = withFileLock(`${file}.lock`, async () => {
+    await delay(50);
+    order.push('held');
+  });
+  await delay(5);
+  await saveManifest(file, { ...emptyManifest(settings), files: { 'a.ts': entry } });
+  order.push('saved');
+  await held;
+  assert.deepEqual(order, ['held', 'saved']);
+});
+
+async function lockDir(t: { after: (fn: () => Promise<void>) => void }): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rag-lock-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+test('takes over a lock whose owner process has exited', async (t) => {
+  const file = path.join(await lockDir(t), 'state.lock');
+  const child = spawn(process.execPath, ['-e', '']);
+  await once(child, 'exit');
+  await fs.writeFile(file, JSON.stringify({ pid: child.pid, token: 'gone' }));
+  assert.equal(await withFileLock(file, async () => 'ran'), 'ran');
+  await assert.rejects(fs.stat(file), { code: 'ENOENT' });
+});
+
+test('keeps waiting for an old lock while its owner is alive', async (t) => {
+  const file = path.join(await lockDir(t), 'state.lock');
+  await fs.writeFile(file, JSON.stringify({ pid: process.pid, token: 'other' }));
+  const hourAgo = new Date(Date.now() - 3_600_000);
+  await fs.utimes(file, hourAgo, hourAgo);
+  let ran = false;
+  const waiting = withFileLock(file, async () => {
+    ran = true;
+  });
+  await delay(100);
+  assert.equal(ran, false);
+  await fs.rm(file);
+  await waiting;
+  assert.equal(ran, true);
+});
+
+test('refreshes the lock while the task runs', async (t) => {
+  const file = path.join(await lockDir(t), 'state.lock');
+  t.mock.timers.enable({ apis: ['setInterval'] });
+  await withFileLock(file, async () => {
+    const hourAgo = new Date(Date.now() - 3_600_000);
+    await fs.utimes(file, hourAgo, hourAgo);
+    t.mock.timers.tick(60_000);
+    await delay(20);
+    assert.ok(Date.now() - (await fs.stat(file)).mtimeMs < 10_000);
+  });
+});
+
+test('removes only a lock it still owns', async (t) => {
+  const file = path.join(await lockDir(t), 'state.lock');
+  const next = JSON.stringify({ pid: process.pid, token: 'next' });
+  await withFileLock(file, async () => {
+    await fs.writeFile(file, next);
+  });
+  assert.equal(await fs.readFile(file, 'utf8'), next);
+});
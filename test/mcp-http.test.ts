@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import { spawn, type ChildProcessWithoutNullStreams } from 'node:child_process';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import process from 'node:process';
+import readline from 'node:readline';
+import { after, before, test } from 'node:test';
+import { fileURLToPath } from 'node:url';
+
+import { fakeVector, inputs, startStub, type Stub } from './stub.js';
+
+interface ToolResponse {
+  result: { content: Array<{ text: string }>; isError: boolean };
+}
+
+let stub: Stub;
+let root: string;
+let server: ChildProcessWithoutNullStreams;
+let baseUrl: string;
+
+function post(body: string, headers: Record<string, string> = {}): Promise<Response> {
+  return fetch(`${baseUrl}/mcp`, { method: 'POST', headers: { 'content-type': 'application/json', ...headers }, body });
+}
+
+async function reindex(token: string): Promise<ToolResponse['result']> {
+  const response = await post(
+    JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'reindex_file', arguments: { file: 'src/a.ts' } } }),
+    { authorization: `Bearer ${token}` }
+  );
+  assert.equal(response.status, 200);
+  return ((await response.json()) as ToolResponse).result;
+}
+
+before(async () => {
+  stub = await startStub((request) => ({ body: { embeddings: inputs(request).map(fakeVector) } }));
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'rag-mcp-http-'));
+  await fs.mkdir(path.join(root, 'src'));
+  await fs.writeFile(path.join(root, 'src/a.ts'), 'export const a = 1;\n');
+  server = spawn(process.execPath, ['--import', 'tsx', 'src/mcp.ts', '--http', '--port', '0'], {
+    cwd: fileURLToPath(new URL('..', import.meta.url)),
+    env: {
+      ...process.env,
+      REPO_ROOT: root,
+      INDEX_UID: 'repo',
+      RAG_STORE: 'local',
+      RAG_EMBED_BACKEND: 'ollama',
+      OLLAMA_BASE_URL: stub.url,
+      RAG_EMBED_CACHE: 'off',
+      RAG_SERVER_READ_TOKENS: 'reader',
+      RAG_SERVER_ADMIN_TOKENS: 'admin',
+      RAG_SERVER_CORS_ORIGINS: 'https://app.example',
+      RAG_SERVER_MAX_BODY: '4096',
+      RAG_SERVER_RATE_LIMIT: '0'
+    }
+  });
+  server.stdout.resume();
+  for await (const line of readline.createInterface({ input: server.stderr })) {
+    const event = JSON.parse(line) as { event?: string; url?: string };
+    if (event.event === 'mcp') {
+      baseUrl = event.url!;
+      break;
+    }
+  }
+});
+
+after(async () => {
+  server.kill();
+  await stub.close();
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+test('requires a bearer token on the MCP endpoints', async () => {
+  const ping = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' });
+  assert.equal((await post(ping)).status, 401);
+  assert.equal((await post(ping, { authorization: 'Bearer nope' })).status, 401);
+  assert.equal((await fetch(`${baseUrl}/sse`)).status, 401);
+  const ok = await post(ping, { authorization: 'Bearer reader' });
+  assert.deepEqual(await ok.json(), { jsonrpc: '2.0', id: 1, result: {} });
+});
+
+test('rejects requests from origins that are not allowed', async () => {
+  const ping = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' });
+  const rebound = await post(ping, { authorization: 'Bearer admin', origin: 'http://attacker.example' });
+  assert.equal(rebound.status, 403);
+  const allowed = await post(ping, { authorization: 'Bearer reader', origin: 'https://app.example' });
+  assert.equal(allowed.status, 200);
+  assert.equal(allowed.headers.get('access-control-allow-origin'), 'https://app.example');
+});
+
+test('rejects oversized bodies', async () => {
+  const response = await post(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping', params: { pad: 'x'.repeat(5000) } }), { authorization: 'Bearer reader' });
+  assert.equal(response.status, 413);
+});
+
+test('allows reindex_file only with an admin token', async () => {
+  const denied = await reindex('reader');
+  assert.equal(denied.isError, true);
+  assert.match(denied.content[0].text, /requires an admin token/);
+  const allowed = await reindex('admin');
+  assert.equal(allowed.isError, false);
+  assert.equal(JSON.parse(allowed.content[0].text).chunks, 1);
+});
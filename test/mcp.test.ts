@@ -0,0 +1,148 @@
+import assert from 'node:assert/strict';
+import { spawn, type ChildProcessWithoutNullStreams } from 'node:child_process';
+import { once } from 'node:events';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import process from 'node:process';
+import readline from 'node:readline';
+import { after, before, test } from 'node:test';
+import { fileURLToPath } from 'node:url';
+
+import { fakeVector, inputs, startStub, type Stub } from './stub.js';
+
+interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+interface ToolResult {
+  content: Array<{ type: string; text: string }>;
+  isError: boolean;
+}
+
+let stub: Stub;
+let root: string;
+let outside: string;
+let server: ChildProcessWithoutNullStreams;
+let responses: AsyncIterator<string>;
+let nextId = 1;
+
+async function exchange(line: string): Promise<unknown> {
+  server.stdin.write(`${line}\n`);
+  const { value } = await responses.next();
+  return JSON.parse(value) as unknown;
+}
+
+async function single(line: string): Promise<JsonRpcResponse> {
+  const response = await exchange(line);
+  assert.ok(typeof response === 'object' && response !== null && !Array.isArray(response), 'expected a single JSON-RPC response');
+  return response as JsonRpcResponse;
+}
+
+function resultOf<T>(response: JsonRpcResponse): T {
+  assert.equal(response.error, undefined);
+  assert.ok(response.result !== undefined, 'expected a JSON-RPC result');
+  return response.result as T;
+}
+
+function call(method: string, params: Record<string, unknown> = {}): Promise<JsonRpcResponse> {
+  return single(JSON.stringify({ jsonrpc: '2.0', id: nextId++, method, params }));
+}
+
+async function tool(name: string, args: Record<string, unknown>): Promise<{ text: string; isError: boolean }> {
+  const { content, isError } = resultOf<ToolResult>(await call('tools/call', { name, arguments: args }));
+  return { text: content[0].text, isError };
+}
+
+before(async () => {
+  stub = await startStub((request) => ({ body: { embeddings: inputs(request).map(fakeVector) } }));
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'rag-mcp-'));
+  await fs.mkdir(path.join(root, 'src'));
+  await fs.writeFile(path.join(root, 'src/tokens.ts'), 'export function parseToken(raw: string) {\n  return raw.trim();\n}\n');
+  await fs.writeFile(path.join(root, '.env'), 'SECRET=1\n');
+  outside = await fs.mkdtemp(path.join(os.tmpdir(), 'rag-mcp-outside-'));
+  await fs.writeFile(path.join(outside, 'secret.ts'), 'export const secret = 1;\n');
+  await fs.symlink(path.join(outside, 'secret.ts'), path.join(root, 'src/link.ts'));
+  server = spawn(process.execPath, ['--import', 'tsx', 'src/mcp.ts'], {
+    cwd: fileURLToPath(new URL('..', import.meta.url)),
+    env: {
+      ...process.env,
+      REPO_ROOT: root,
+      INDEX_UID: 'repo',
+      RAG_STORE: 'local',
+      RAG_EMBED_BACKEND: 'ollama',
+      OLLAMA_BASE_URL: stub.url,
+      RAG_EMBED_CACHE: 'off'
+    }
+  });
+  server.stderr.resume();
+  responses = readline.createInterface({ input: server.stdout })[Symbol.asyncIterator]();
+});
+
+after(async () => {
+  server.kill();
+  await stub.close();
+  await fs.rm(root, { recursive: true, force: true });
+  await fs.rm(outside, { recursive: true, force: true });
+});
+
+test('negotiates the protocol version and lists tools', async () => {
+  const init = resultOf<{ protocolVersion: string; serverInfo: { name: string } }>(
+    await call('initialize', { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '0' } })
+  );
+  assert.equal(init.protocolVersion, '2025-03-26');
+  assert.equal(init.serverInfo.name, 'repo-indexer');
+  server.stdin.write(`${JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' })}\n`);
+  const list = resultOf<{ tools: Array<{ name: string }> }>(await call('tools/list'));
+  assert.deepEqual(list.tools.map((item) => item.name), ['search_code', 'read_chunk', 'find_similar', 'index_status', 'reindex_file']);
+});
+
+test('indexes, searches and reads a file through tool calls', async () => {
+  const reindexed = await tool('reindex_file', { file: 'src/tokens.ts' });
+  assert.equal(reindexed.isError, false);
+  assert.equal(JSON.parse(reindexed.text).chunks, 1);
+
+  const found = await tool('search_code', { query: 'parseToken', mode: 'keyword' });
+  assert.match(found.text, /src\/tokens\.ts:1-4/);
+
+  const read = await tool('read_chunk', { file: 'src/tokens.ts', start: 2, end: 2 });
+  assert.equal(read.text, 'src/tokens.ts:2-2\n```\n2 |   return raw.trim();\n```');
+
+  const status = JSON.parse((await tool('index_status', {})).text);
+  assert.deepEqual([status.store, status.exists, status.documents], ['local', true, 1]);
+});
+
+test('reports tool failures as error results', async () => {
+  const missing = await tool('read_chunk', { file: '../outside.ts' });
+  assert.equal(missing.isError, true);
+  const unindexed = await tool('read_chunk', { file: '.env' });
+  assert.deepEqual(unindexed, { text: 'File is not indexed: .env', isError: true });
+  const optionRev = await tool('read_chunk', { file: 'src/tokens.ts', rev: '--output=pwned' });
+  assert.deepEqual(optionRev, { text: 'rev must not start with "-"', isError: true });
+  const unknown = await call('tools/call', { name: 'drop_index', arguments: {} });
+  assert.equal(unknown.error?.code, -32602);
+});
+
+test('does not follow symlinks out of the repository', async () => {
+  assert.equal((await tool('reindex_file', { file: 'src/link.ts' })).isError, false);
+  const read = await tool('read_chunk', { file: 'src/link.ts' });
+  assert.deepEqual(read, { text: 'File is outside the repository: src/link.ts', isError: true });
+});
+
+test('answers malformed input with JSON-RPC errors and keeps serving', async () => {
+  assert.equal((await single('{not json')).error?.code, -32700);
+  assert.equal((await single('42')).error?.code, -32600);
+  assert.equal((await single('[]')).error?.code, -32600);
+  const batch = await exchange(JSON.stringify([{ jsonrpc: '2.0', id: 'a', method: 'ping' }, null]));
+  assert.deepEqual(batch, [{ jsonrpc: '2.0', id: 'a', result: {} }, { jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid request' } }]);
+  assert.deepEqual((await call('ping')).result, {});
+});
+
+test('exits cleanly when stdin closes', async () => {
+  server.stdin.end();
+  const [code] = await once(server, 'exit');
+  assert.equal(code, 0);
+});
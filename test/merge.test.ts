@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { groupHitsByFile, mergeHits, parseGroupBy, parsePerFile } from '../src/merge.js';
+
+function hit(filePath: string, startLine: number, endLine: number, score: number, extra: Record<string, unknown> = {}): Record<string, unknown> {
+  const content = Array.from({ length: endLine - startLine + 1 }, (_, i) => `line ${startLine + i}`).join('\n');
+  return { filePath, startLine, endLine, _rankingScore: score, content, ...extra };
+}
+
+test('merges overlapping and adjacent chunks of the same file', () => {
+  const [merged, other] = mergeHits([hit('a.ts', 1, 10, 0.5), hit('b.ts', 1, 5, 0.7), hit('a.ts', 6, 20, 0.9), hit('a.ts', 21, 25, 0.1)], { limit: 10 });
+  assert.deepEqual([merged.filePath, merged.startLine, merged.endLine, merged._rankingScore, merged.mergedChunks], ['a.ts', 1, 25, 0.9, 3]);
+  assert.equal(merged.content, Array.from({ length: 25 }, (_, i) => `line ${i + 1}`).join('\n'));
+  assert.equal(other.filePath, 'b.ts');
+});
+
+test('keeps separate ranges and files from different repositories apart', () => {
+  const hits = mergeHits([hit('a.ts', 1, 5, 0.9), hit('a.ts', 30, 40, 0.8), hit('a.ts', 6, 8, 0.7, { repo: 'other' })], { limit: 10 });
+  assert.deepEqual(hits.map((item) => [item.repo, item.startLine, item.endLine]), [[undefined, 1, 5], [undefined, 30, 40], ['other', 6, 8]]);
+});
+
+test('merges highlighted content only when both sides carry it', () => {
+  const [withBoth] = mergeHits([
+    hit('a.ts', 1, 2, 0.5, { _formatted: { content: 'line <em>1</em>\nline 2' } }),
+    hit('a.ts', 2, 3, 0.4, { _formatted: { content: 'line 2\nline <em>3</em>' } })
+  ], { limit: 1 });
+  assert.deepEqual(withBoth._formatted, { content: 'line <em>1</em>\nline 2\nline <em>3</em>' });
+  const [withOne] = mergeHits([hit('a.ts', 1, 2, 0.5, { _formatted: { content: 'x' } }), hit('a.ts', 3, 4, 0.4)], { limit: 1 });
+  assert.equal(withOne._formatted, undefined);
+});
+
+test('applies the per-file cap before the overall limit', () => {
+  const hits = mergeHits([hit('a.ts', 1, 2, 0.9), hit('a.ts', 10, 12, 0.8), hit('a.ts', 20, 22, 0.7), hit('b.ts', 1, 2, 0.6), hit('c.ts', 1, 2, 0.5)], { limit: 3, perFile: 1 });
+  assert.deepEqual(hits.map((item) => item.filePath), ['a.ts', 'b.ts', 'c.ts']);
+});
+
+test('groups hits by file ordered by their best score', () => {
+  const groups = groupHitsByFile([hit('a.ts', 1, 2, 0.4), hit('b.ts', 1, 2, 0.6), hit('a.ts', 9, 9, 0.8), hit('c.ts', 1, 1, 0.1)], 2);
+  assert.deepEqual(groups.map((group) => [group.filePath, group._rankingScore, group.hits.length]), [['a.ts', 0.8, 2], ['b.ts', 0.6, 1]]);
+});
+
+test('validates groupBy and perFile', () => {
+  assert.equal(parseGroupBy(undefined), 'chunk');
+  assert.equal(parseGroupBy('FILE'), 'file');
+  assert.throws(() => parseGroupBy('repo'), /Unsupported groupBy/);
+  assert.equal(parsePerFile(''), undefined);
+  assert.equal(parsePerFile('2'), 2);
+  assert.throws(() => parsePerFile(0), /positive integer/);
+});
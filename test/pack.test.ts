@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { buildContextPack, codeFence, estimateTokens, numberedLines, parseBudget, parsePackFormat, type PackOptions } from '../src/pack.js';
+
+const file = Array.from({ length: 30 }, (_, i) => `const v${i + 1} = ${i + 1};`);
+
+function hit(startLine: number, endLine: number, extra: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    filePath: 'src/values.ts',
+    language: 'typescript',
+    startLine,
+    endLine,
+    _rankingScore: 0.5,
+    content: file.slice(startLine - 1, endLine).join('\n'),
+    ...extra
+  };
+}
+
+function options(extra: Partial<PackOptions> = {}): PackOptions {
+  return { budget: 10_000, format: 'markdown', readLines: async () => file, ...extra };
+}
+
+test('renders markdown blocks with line numbers and a manifest', async () => {
+  const pack = await buildContextPack([hit(9, 10, { symbolName: 'v9' })], options());
+  assert.equal(pack.context, '### src/values.ts:9-10 — `v9`\n```typescript\n 9 | const v9 = 9;\n10 | const v10 = 10;\n```');
+  assert.deepEqual(pack.manifest.included.map((entry) => [entry.startLine, entry.endLine, entry.expanded, entry.stale]), [[9, 10, false, false]]);
+  assert.equal(pack.manifest.usedTokens, pack.manifest.included[0].tokens);
+});
+
+test('fences markdown chunks with a longer fence than the code blocks inside them', async () => {
+  const readme = ['# Usage', '', '```sh', 'npm run search', '```', '', '````md', '```', '````'];
+  const pack = await buildContextPack([hit(1, 5, { filePath: 'README.md', language: 'markdown', content: readme.slice(0, 5).join('\n') })], options({ readLines: async () => readme }));
+  assert.equal(pack.context, [
+    '### README.md:1-5',
+    '````markdown',
+    '1 | # Usage',
+    '2 | ',
+    '3 | ```sh',
+    '4 | npm run search',
+    '5 | ```',
+    '````'
+  ].join('\n'));
+  assert.equal(codeFence('plain'), '```');
+  assert.equal(codeFence(readme.join('\n')), '`````');
+});
+
+test('merges overlapping hits of the same file into one block', async () => {
+  const pack = await buildContextPack([hit(1, 5), hit(4, 8), hit(20, 21)], options());
+  assert.deepEqual(pack.manifest.included.map((entry) => [entry.startLine, entry.endLine]), [[1, 8], [20, 21]]);
+});
+
+test('expands hits to the whole symbol when the budget allows', async () => {
+  const symbolSearch: PackOptions['symbolSearch'] = async (_hit, request) => {
+    assert.equal(request.filter, 'filePath = "src/values.ts" AND symbolName = "values"');
+    return { hits: [{ startLine: 3, endLine: 6 }, { startLine: 7, endLine: 12 }] };
+  };
+  const pack = await buildContextPack([hit(5, 6, { symbolName: 'values' })], options({ symbolSearch }));
+  assert.deepEqual(pack.manifest.included.map((entry) => [entry.startLine, entry.endLine, entry.expanded]), [[3, 12, true]]);
+
+  const tight = await buildContextPack([hit(5, 6, { symbolName: 'values' })], options({ symbolSearch, budget: 80 }));
+  assert.deepEqual(tight.manifest.included.map((entry) => [entry.startLine, entry.endLine, entry.expanded]), [[5, 6, false]]);
+});
+
+test('drops blocks that do not fit the budget', async () => {
+  const pack = await buildContextPack([hit(1, 2), hit(10, 30)], options({ budget: 100 }));
+  assert.deepEqual(pack.manifest.included.map((entry) => entry.startLine), [1]);
+  assert.deepEqual(pack.manifest.dropped.map((entry) => [entry.startLine, entry.reason]), [[10, 'budget']]);
+  assert.ok(pack.manifest.usedTokens <= 100);
+});
+
+test('falls back to indexed content when the file changed since indexing', async () => {
+  const pack = await buildContextPack([hit(1, 1)], options({ readLines: async () => ['const changed = true;'] }));
+  assert.equal(pack.manifest.included[0].stale, true);
+  assert.match(pack.context, /1 \| const v1 = 1;/);
+});
+
+test('emits well-formed XML with escaped attributes and CDATA bodies', async () => {
+  const tricky = ['const s = "]]>";', 'if (a < b && c > d) {}'];
+  const pack = await buildContextPack(
+    [{ filePath: 'src/<a&b>".ts', repo: 'r"1', startLine: 1, endLine: 2, content: tricky.join('\n'), symbolName: 'a<b' }],
+    options({ format: 'xml', readLines: async () => tricky })
+  );
+  assert.equal(pack.context, [
+    '<context>',
+    '<file path="src/&lt;a&amp;b&gt;&quot;.ts" repo="r&quot;1" lines="1-2" symbol="a&lt;b"><![CDATA[',
+    '1 | const s = "]]]]><![CDATA[>";',
+    '2 | if (a < b && c > d) {}',
+    ']]></file>',
+    '</context>'
+  ].join('\n'));
+});
+
+test('validates budget and format', () => {
+  assert.equal(parseBudget('1200'), 1200);
+  assert.throws(() => parseBudget(-1), /positive integer/);
+  assert.equal(parsePackFormat('MD'), 'markdown');
+  assert.equal(parsePackFormat(undefined), 'markdown');
+  assert.throws(() => parsePackFormat('html'), /Unsupported pack format/);
+});
+
+test('estimates more tokens for longer text and pads line numbers', () => {
+  assert.ok(estimateTokens('a b c') < estimateTokens('a b c d e f'));
+  assert.ok(estimateTokens('averyveryverylongidentifier') > 1);
+  assert.equal(numberedLines('x\ny', 9), ' 9 | x\n10 | y');
+});
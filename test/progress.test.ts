@@ -0,0 +1,128 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import {
+  createProgressBar,
+  createProgressBus,
+  createProgressTracker,
+  renderProgress,
+  type ProgressEvent,
+  type ProgressSnapshot
+} from '../src/progress.js';
+
+function recordedBus() {
+  const bus = createProgressBus();
+  const events: ProgressEvent[] = [];
+  bus.subscribe((event) => events.push(event));
+  return { bus, events };
+}
+
+function snapshot(extra: Partial<ProgressSnapshot> = {}): ProgressSnapshot {
+  return {
+    runId: 'run',
+    repo: 'repo',
+    index: 'repo',
+    kind: 'full',
+    phase: 'index',
+    startedAt: '',
+    updatedAt: '',
+    finishedAt: null,
+    filesDiscovered: 10,
+    filesProcessed: 5,
+    filesIndexed: 5,
+    filesSkipped: 0,
+    filesFailed: 0,
+    filesRemoved: 0,
+    chunksEmbedded: 40,
+    embeddingsPerSecond: 12.5,
+    etaSeconds: 125,
+    currentFile: null,
+    error: null,
+    ...extra
+  };
+}
+
+test('counts file outcomes, removals and phase transitions', (t) => {
+  t.mock.timers.enable({ apis: ['Date'], now: 1_000_000 });
+  const { bus, events } = recordedBus();
+  const tracker = createProgressTracker(bus, { repo: 'repo', index: 'repo', kind: 'full' });
+  tracker.discovered(4);
+  tracker.file('a.ts');
+  tracker.processed('a.ts', 'indexed', 3);
+  tracker.processed('b.ts', 'skipped');
+  tracker.processed('c.ts', 'failed');
+  tracker.processed('d.ts', 'indexed', 0);
+  tracker.removed(2);
+  tracker.phase('settle');
+  tracker.complete();
+
+  const final = tracker.snapshot();
+  assert.deepEqual(
+    [final.filesDiscovered, final.filesProcessed, final.filesIndexed, final.filesSkipped, final.filesFailed, final.filesRemoved, final.chunksEmbedded],
+    [4, 4, 2, 1, 1, 2, 3]
+  );
+  assert.deepEqual([final.phase, final.currentFile, final.etaSeconds], ['complete', null, 0]);
+  assert.deepEqual(events.map((event) => `${event.type}:${event.progress.phase}`), [
+    'start:discover',
+    'progress:index',
+    'progress:remove',
+    'progress:settle',
+    'complete:complete'
+  ]);
+  assert.deepEqual(bus.snapshots().map((progress) => progress.phase), ['complete']);
+});
+
+test('publishes throttled progress and always publishes failures', (t) => {
+  t.mock.timers.enable({ apis: ['Date'], now: 1_000_000 });
+  const { bus, events } = recordedBus();
+  const tracker = createProgressTracker(bus, { repo: 'repo', index: 'repo__rev_v1', kind: 'revision', rev: 'v1' });
+  tracker.discovered(3);
+  t.mock.timers.tick(300);
+  tracker.discovered(1);
+  tracker.discovered(1);
+  tracker.fail(new Error('embedder down'));
+  assert.deepEqual(events.map((event) => `${event.type}:${event.progress.filesDiscovered}`), ['start:0', 'progress:4', 'failed:5']);
+  assert.equal(events.at(-1)?.progress.error, 'embedder down');
+  assert.deepEqual(bus.snapshots().map((progress) => progress.rev), ['v1']);
+});
+
+test('derives embeddings per second and ETA from the indexing phase', (t) => {
+  t.mock.timers.enable({ apis: ['Date'], now: 1_000_000 });
+  const tracker = createProgressTracker(createProgressBus(), { repo: 'repo', index: 'repo', kind: 'full' });
+  tracker.discovered(10);
+  t.mock.timers.tick(5_000);
+  assert.equal(tracker.snapshot().etaSeconds, null);
+  tracker.file('a.ts');
+  t.mock.timers.tick(2_000);
+  tracker.processed('a.ts', 'indexed', 8);
+  tracker.processed('b.ts', 'indexed', 2);
+  const progress = tracker.snapshot();
+  assert.equal(progress.embeddingsPerSecond, 5);
+  assert.equal(progress.etaSeconds, 8);
+});
+
+test('renders a progress line with ETA, failures and the current file', () => {
+  assert.equal(
+    renderProgress(snapshot({ filesFailed: 1, currentFile: 'src/a.ts' }), 200),
+    '[##########----------]  50% · 5/10 files · 40 chunks · 12.5 emb/s · 1 failed · ETA 2m05s · src/a.ts'
+  );
+  assert.equal(renderProgress(snapshot({ phase: 'settle', etaSeconds: null, filesDiscovered: 0, filesProcessed: 0 }), 200),
+    '[--------------------]   0% · 0/0 files · 40 chunks · 12.5 emb/s · settle');
+  assert.match(renderProgress(snapshot({ etaSeconds: 7_500 }), 200), /ETA 2h05m/);
+});
+
+test('truncates the line to the terminal width', () => {
+  const line = renderProgress(snapshot({ currentFile: `src/${'x'.repeat(100)}.ts` }), 40);
+  assert.equal(line.length, 39);
+  assert.ok(line.endsWith('…'));
+});
+
+test('redraws the bar in place and clears it when the run ends', () => {
+  const writes: string[] = [];
+  const stream = { columns: 200, write: (chunk: string) => writes.push(chunk) } as unknown as NodeJS.WriteStream;
+  const bar = createProgressBar(stream);
+  bar.update({ type: 'progress', progress: snapshot() });
+  bar.update({ type: 'complete', progress: snapshot({ phase: 'complete' }) });
+  bar.redraw();
+  assert.deepEqual(writes, [`\r\x1b[2K${renderProgress(snapshot(), 200)}`, '\r\x1b[2K']);
+});
@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { fuseReciprocalRank, parseSemanticRatio } from '../src/ranking.js';
+
+test('ranks documents found by both signals above single-signal hits', () => {
+  const keyword = [{ id: 'a', _rankingScore: 0.9 }, { id: 'b', _rankingScore: 0.5 }];
+  const vector = [{ id: 'c', _rankingScore: 0.95 }, { id: 'b', _rankingScore: 0.8 }];
+  const fused = fuseReciprocalRank({ keyword, vector }, 10, 60);
+  assert.deepEqual(fused.map((hit) => hit.id), ['b', 'a', 'c']);
+  assert.deepEqual(fused[0].ranks, { keyword: 2, vector: 2 });
+  assert.deepEqual(fused[0].signalScores, { keyword: 0.5, vector: 0.8 });
+  assert.deepEqual(fused[1].ranks, { keyword: 1, vector: null });
+  assert.equal(fused[0].rrfScore, 2 / 62);
+});
+
+test('normalizes scores so a top hit in every signal scores 1', () => {
+  const fused = fuseReciprocalRank({ keyword: [{ id: 'a' }], vector: [{ id: 'a' }] }, 10, 60);
+  assert.equal(fused[0]._rankingScore, 1);
+  assert.deepEqual(fused[0].signalScores, { keyword: null, vector: null });
+});
+
+test('keys hits by repository and falls back to the line range without an id', () => {
+  const fused = fuseReciprocalRank({
+    keyword: [{ filePath: 'a.ts', startLine: 1, endLine: 5, repo: 'one' }],
+    vector: [{ filePath: 'a.ts', startLine: 1, endLine: 5, repo: 'two' }, { filePath: 'a.ts', startLine: 1, endLine: 5, repo: 'one' }]
+  }, 10);
+  assert.deepEqual(fused.map((hit) => hit.repo), ['one', 'two']);
+});
+
+test('keeps keyword highlights when the vector hit arrives first', () => {
+  const fused = fuseReciprocalRank({ vector: [{ id: 'a' }], keyword: [{ id: 'a', _formatted: { content: '<em>a</em>' } }] }, 10);
+  assert.deepEqual(fused[0]._formatted, { content: '<em>a</em>' });
+});
+
+test('truncates the fused list to the limit', () => {
+  const hits = Array.from({ length: 5 }, (_, i) => ({ id: String(i) }));
+  assert.equal(fuseReciprocalRank({ keyword: hits }, 2).length, 2);
+});
+
+test('validates semanticRatio', () => {
+  assert.equal(parseSemanticRatio(undefined), 0.5);
+  assert.equal(parseSemanticRatio('0.25'), 0.25);
+  assert.throws(() => parseSemanticRatio(1.5), /between 0 and 1/);
+  assert.throws(() => parseSemanticRatio('abc'), /between 0 and 1/);
+});
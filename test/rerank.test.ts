@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { RERANK_DEFAULT, parseRerank, rerankHits, type PairScorer } from '../src/rerank.js';
+
+test('parses rerank flags', () => {
+  assert.equal(parseRerank(undefined), RERANK_DEFAULT);
+  assert.equal(parseRerank(''), RERANK_DEFAULT);
+  assert.equal(parseRerank(true), true);
+  for (const value of ['1', 'true', 'ON', 'yes']) {
+    assert.equal(parseRerank(value), true);
+  }
+  for (const value of ['0', 'False', 'off', 'no']) {
+    assert.equal(parseRerank(value), false);
+  }
+  assert.throws(() => parseRerank('maybe'), /rerank must be true or false/);
+});
+
+test('orders hits by cross-encoder score and keeps the retrieval score', async () => {
+  const seen: string[][] = [];
+  const score: PairScorer = async (query, passages) => {
+    assert.equal(query, 'parse config');
+    seen.push(passages);
+    return passages.map((passage) => (passage.includes('config') ? 0.9 : passage.includes('parse') ? 0.5 : 0.1));
+  };
+  const hits = [
+    { id: 'a', filePath: 'src/a.ts', content: 'unrelated', _rankingScore: 0.8 },
+    { id: 'b', filePath: 'src/b.ts', symbolName: 'parse', content: 'tokens', _rankingScore: 0.7 },
+    { id: 'c', filePath: 'src/config.ts', content: 'load' }
+  ];
+
+  const reranked = await rerankHits('parse config', hits, 2, score);
+  assert.deepEqual(seen, [['src/a.ts\nunrelated', 'src/b.ts parse\ntokens', 'src/config.ts\nload']]);
+  assert.deepEqual(reranked.map((hit) => [hit.id, hit.rerankScore, hit.retrievalScore, hit._rankingScore]), [
+    ['c', 0.9, null, 0.9],
+    ['b', 0.5, 0.7, 0.5]
+  ]);
+});
+
+test('skips scoring for empty hit lists and requires query text', async () => {
+  const score: PairScorer = async () => assert.fail('scorer should not run');
+  assert.deepEqual(await rerankHits('x', [], 5, score), []);
+  await assert.rejects(rerankHits('  ', [{ id: 'a' }], 5, score), /rerank requires query text/);
+});
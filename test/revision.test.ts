@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import process from 'node:process';
+import { after, before, test } from 'node:test';
+
+import { fakeVector, inputs, startStub, type Stub } from './stub.js';
+
+let stub: Stub;
+let root: string;
+let head: string;
+let indexer: typeof import('../src/indexer.js');
+let searchCode: typeof import('../src/searchcore.js').searchCode;
+let isInvalidRequest: typeof import('../src/searchcore.js').isInvalidRequest;
+let revisionIndexUid: typeof import('../src/store.js').revisionIndexUid;
+
+function git(...args: string[]): string {
+  return execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd: root, encoding: 'utf8' }).trim();
+}
+
+async function commitFiles(files: Record<string, string>, message: string): Promise<void> {
+  for (const [rel, text] of Object.entries(files)) {
+    await fs.mkdir(path.dirname(path.join(root, rel)), { recursive: true });
+    await fs.writeFile(path.join(root, rel), text);
+  }
+  git('add', '-A');
+  git('commit', '-q', '-m', message);
+}
+
+before(async () => {
+  stub = await startStub((request) => ({ body: { embeddings: inputs(request).map(fakeVector) } }));
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'rag-rev-'));
+  git('init', '-q');
+  await commitFiles({
+    'src/release.ts': 'export function releaseAlpha() {\n  return "alpha";\n}\n',
+    'generated/skip.ts': 'export const skipped = true;\n',
+    '.ragignore': 'generated/\n'
+  }, 'v1');
+  git('tag', 'v1');
+  await commitFiles({ 'src/release.ts': 'export function releaseBeta() {\n  return "beta";\n}\n' }, 'v2');
+  head = git('rev-parse', 'HEAD');
+  Object.assign(process.env, {
+    REPO_ROOT: root,
+    INDEX_UID: 'repo',
+    RAG_STORE: 'local',
+    RAG_EMBED_BACKEND: 'ollama',
+    OLLAMA_BASE_URL: stub.url,
+    RAG_EMBED_CACHE: 'off'
+  });
+  indexer = await import('../src/indexer.js');
+  ({ searchCode, isInvalidRequest } = await import('../src/searchcore.js'));
+  ({ revisionIndexUid } = await import('../src/store.js'));
+});
+
+after(async () => {
+  await stub.close();
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+test('indexes a tag from git objects using the ignore rules of that revision', async () => {
+  const summary = await indexer.indexRevision({ rev: 'v1', wait: true }, () => {});
+  assert.deepEqual(summary, { indexedFiles: 1, indexedChunks: 1, skippedFiles: 0, removedFiles: 0, failedTasks: 0 });
+});
+
+test('searches the revision index instead of the working tree', async () => {
+  const result = await searchCode({ query: 'releaseAlpha', mode: 'keyword', rev: 'v1', includeContent: true });
+  const [hit] = result.hits ?? [];
+  assert.equal(hit.filePath, 'src/release.ts');
+  assert.equal(hit.commit, git('rev-parse', 'v1'));
+  assert.match(String(hit.content), /alpha/);
+  assert.ok(!(result.hits ?? []).some((other) => String(other.filePath).startsWith('generated/')));
+});
+
+test('leaves the checkout untouched', async () => {
+  assert.equal(git('rev-parse', 'HEAD'), head);
+  assert.equal(git('status', '--porcelain', '--untracked-files=no'), '');
+  assert.match(await fs.readFile(path.join(root, 'src/release.ts'), 'utf8'), /releaseBeta/);
+});
+
+test('keeps refs that sanitize to the same name in separate indexes', () => {
+  assert.notEqual(revisionIndexUid('feature/x'), revisionIndexUid('feature_x'));
+  assert.match(revisionIndexUid('feature/x'), /^repo__rev_feature_x_[0-9a-f]{8}$/);
+});
+
+test('rejects revisions that do not exist', async () => {
+  await assert.rejects(indexer.indexRevision({ rev: 'no-such-ref', wait: true }, () => {}));
+});
+
+test('reads the like region from the revision', async () => {
+  const result = await searchCode({ like: { filePath: 'src/release.ts', startLine: 1, endLine: 3 }, rev: 'v1' });
+  assert.ok(!(result.hits ?? []).some((hit) => hit.filePath === 'src/release.ts'));
+  await assert.rejects(searchCode({ like: { filePath: 'src/release.ts', startLine: 1 }, rev: 'no-such-ref' }), /Unknown git revision: no-such-ref/);
+});
+
+test('rejects revisions that git would parse as options', async () => {
+  const target = path.join(root, 'pwned');
+  for (const rev of [`--output=${target}`, '-p']) {
+    await assert.rejects(searchCode({ like: { filePath: 'src/release.ts', startLine: 1 }, rev }), (error: unknown) => {
+      assert.ok(isInvalidRequest(error));
+      assert.match(String(error), /rev must not start with "-"/);
+      return true;
+    });
+  }
+  await assert.rejects(fs.stat(target), { code: 'ENOENT' });
+});
+
+test('passes revisions to git after --end-of-options', async (t) => {
+  const { gitListFiles, gitResolveCommit, gitShowFile } = await import('../src/git.js');
+  const out = await fs.mkdtemp(path.join(os.tmpdir(), 'rag-rev-out-'));
+  t.after(() => fs.rm(out, { recursive: true, force: true }));
+  // `git show --output=<out>/x:./src/release.ts` would write into this directory.
+  await fs.mkdir(path.join(out, 'x:.', 'src'), { recursive: true });
+  const rev = `--output=${path.join(out, 'x')}`;
+  await assert.rejects(indexer.indexRevision({ rev, wait: true }, () => {}), /Unknown git revision/);
+  await assert.rejects(gitResolveCommit(root, rev), /Unknown git revision/);
+  await assert.rejects(gitListFiles(root, rev));
+  assert.equal(await gitShowFile(root, rev, 'src/release.ts'), null);
+  assert.deepEqual(await fs.readdir(path.join(out, 'x:.', 'src')), []);
+  assert.match(await gitShowFile(root, 'v1', 'src/release.ts') ?? '', /releaseAlpha/);
+});
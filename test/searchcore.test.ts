@@ -0,0 +1,12 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { MAX_SEARCH_LIMIT, isInvalidRequest, parseLimit, searchCode } from '../src/searchcore.js';
+
+test('bounds the search limit', async () => {
+  assert.equal(parseLimit(String(MAX_SEARCH_LIMIT)), MAX_SEARCH_LIMIT);
+  assert.equal(parseLimit(undefined), undefined);
+  assert.throws(() => parseLimit('0'), /limit must be a positive integer/);
+  assert.throws(() => parseLimit(MAX_SEARCH_LIMIT + 1), new RegExp(`limit must be at most ${MAX_SEARCH_LIMIT}`));
+  await assert.rejects(searchCode({ query: 'x', limit: 1_000_000 }), (error: unknown) => isInvalidRequest(error) && /at most/.test(String(error)));
+});
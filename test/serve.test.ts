@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import process from 'node:process';
+import { after, before, test } from 'node:test';
+import { fileURLToPath } from 'node:url';
+
+import { startStub, type Stub } from './stub.js';
+
+let stub: Stub;
+let root: string;
+
+function serve(args: string[]): Promise<{ code: number | null; stderr: string }> {
+  const { MEILI_MODE: _mode, MEILI_URL: _url, ...env } = process.env;
+  const child = spawn(process.execPath, ['--import', 'tsx', 'src/serve.ts', '--root', root, ...args], {
+    cwd: fileURLToPath(new URL('..', import.meta.url)),
+    env: { ...env, RAG_STORE: 'meili' },
+    stdio: ['ignore', 'ignore', 'pipe']
+  });
+  let stderr = '';
+  child.stderr.on('data', (chunk) => {
+    stderr += chunk;
+  });
+  return new Promise((resolve) => child.once('close', (code) => resolve({ code, stderr })));
+}
+
+before(async () => {
+  stub = await startStub((request) => (request.url === '/health' ? { body: { status: 'available' } } : { status: 500, body: { message: 'stub' } }));
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'rag-serve-'));
+});
+
+after(async () => {
+  await stub.close();
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+test('rejects unknown modes and external mode without a URL', async () => {
+  const unknown = await serve(['--meili-mode', 'podman']);
+  assert.equal(unknown.code, 1);
+  assert.match(unknown.stderr, /Unsupported Meilisearch mode: podman \(expected docker, binary or external\)/);
+  const external = await serve(['--meili-mode', 'external']);
+  assert.equal(external.code, 1);
+  assert.match(external.stderr, /External Meilisearch mode requires --meili-url or MEILI_URL/);
+});
+
+test('attaches to an external instance given by --meili-url without spawning one', async () => {
+  const { code, stderr } = await serve(['--meili-url', stub.url, '--master-key', 'k3y']);
+  assert.equal(code, 1);
+  assert.match(stderr, /Failed to enable Meilisearch vector store: 500/);
+  assert.deepEqual(stub.requests.map((request) => `${request.method} ${request.url}`), ['GET /health', 'PATCH /experimental-features']);
+  assert.equal(stub.requests[1].headers.authorization, 'Bearer k3y');
+  await assert.rejects(fs.stat(path.join(root, '.meili-data')), { code: 'ENOENT' });
+});
+
+test('spawns the meilisearch binary with the data dir, key and address', async () => {
+  const binary = path.join(root, 'fake-meilisearch');
+  await fs.writeFile(binary, `#!/bin/sh\nprintf '%s\\n' "$@" > "${path.join(root, 'args')}"\n`, { mode: 0o755 });
+  const { code, stderr } = await serve(['--meili-mode', 'binary', '--meili-binary', binary, '--master-key', 'k3y', '--meili-port', '1']);
+  assert.equal(code, 1);
+  assert.match(stderr, /Meilisearch \(binary\) exited before becoming healthy/);
+  const args = (await fs.readFile(path.join(root, 'args'), 'utf8')).trim().split('\n');
+  assert.deepEqual(args, ['--db-path', path.join(root, '.meili-data'), '--master-key', 'k3y', '--http-addr', '127.0.0.1:1']);
+});
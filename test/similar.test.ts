@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { test } from 'node:test';
+
+import { excludeRegion, parseLocation, readRegion, sourceLocation, type SourceRegion } from '../src/similar.js';
+
+test('validates source locations', () => {
+  assert.deepEqual(sourceLocation(' src/a.ts ', '3'), { filePath: 'src/a.ts', startLine: 3, endLine: 3 });
+  assert.deepEqual(sourceLocation('src/a.ts', 3, '7'), { filePath: 'src/a.ts', startLine: 3, endLine: 7 });
+  assert.deepEqual(sourceLocation('src/a.ts', ''), { filePath: 'src/a.ts', startLine: undefined, endLine: undefined });
+  assert.throws(() => sourceLocation(''), /file is required/);
+  assert.throws(() => sourceLocation('src/a.ts', '0'), /start must be a positive line number/);
+  assert.throws(() => sourceLocation('src/a.ts', '2x'), /start must be a positive line number/);
+  assert.throws(() => sourceLocation('src/a.ts', 5, 4), /end must not be before start/);
+});
+
+test('parses file:start-end locations', () => {
+  assert.deepEqual(parseLocation('src/a.ts:10-12'), { filePath: 'src/a.ts', startLine: 10, endLine: 12 });
+  assert.deepEqual(parseLocation('src/a.ts:10'), { filePath: 'src/a.ts', startLine: 10, endLine: 10 });
+  assert.deepEqual(parseLocation('C:/a.ts'), { filePath: 'C:/a.ts', startLine: undefined, endLine: undefined });
+  assert.throws(() => parseLocation('src/a.ts:9-3'), /end must not be before start/);
+});
+
+test('drops only hits that overlap the source region', () => {
+  const region: SourceRegion = { filePath: 'src/a.ts', startLine: 10, endLine: 20, text: '' };
+  const hits = [
+    { id: 'before', filePath: 'src/a.ts', startLine: 1, endLine: 9 },
+    { id: 'overlap-start', filePath: 'src/a.ts', startLine: 5, endLine: 10 },
+    { id: 'inside', filePath: 'src/a.ts', startLine: 12, endLine: 14 },
+    { id: 'overlap-end', filePath: 'src/a.ts', startLine: 20, endLine: 30 },
+    { id: 'after', filePath: 'src/a.ts', startLine: 21, endLine: 30 },
+    { id: 'other-file', filePath: 'src/b.ts', startLine: 10, endLine: 20 },
+    { id: 'other-repo', filePath: 'src/a.ts', startLine: 10, endLine: 20, repo: 'docs' },
+    { id: 'no-lines', filePath: 'src/a.ts' }
+  ];
+  assert.deepEqual(excludeRegion(hits, region).map((hit) => hit.id), ['before', 'after', 'other-file', 'no-lines']);
+  assert.deepEqual(excludeRegion(hits, region, 'app').map((hit) => hit.id), ['before', 'after', 'other-file', 'other-repo', 'no-lines']);
+});
+
+test('reads a region of a working tree file', async (t) => {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'rag-similar-'));
+  t.after(() => fs.rm(root, { recursive: true, force: true }));
+  await fs.writeFile(path.join(root, 'a.ts'), 'one\ntwo\nthree\n\n');
+
+  assert.deepEqual(await readRegion(root, sourceLocation('./a.ts', 2)), { filePath: 'a.ts', startLine: 2, endLine: 2, text: 'two' });
+  assert.deepEqual(await readRegion(root, { filePath: 'a.ts', startLine: 2, endLine: 99 }), { filePath: 'a.ts', startLine: 2, endLine: 4, text: 'two\nthree\n' });
+  await assert.rejects(readRegion(root, { filePath: 'a.ts', startLine: 9 }), /Line 9 is outside a.ts \(4 lines\)/);
+  await assert.rejects(readRegion(root, { filePath: 'a.ts', startLine: 4 }), /Lines 4-4 of a.ts are empty/);
+  await assert.rejects(readRegion(root, { filePath: '../a.ts' }), /outside the repository/);
+  await assert.rejects(readRegion(root, { filePath: 'missing.ts' }), /File not found: missing.ts/);
+});
@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface StubRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: unknown;
+}
+
+export interface StubReply {
+  status?: number;
+  body: unknown;
+}
+
+export interface Stub {
+  url: string;
+  requests: StubRequest[];
+  close: () => Promise<void>;
+}
+
+export async function startStub(handler: (request: StubRequest) => StubReply): Promise<Stub> {
+  const requests: StubRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let text = '';
+    req.on('data', (chunk) => {
+      text += chunk;
+    });
+    req.on('end', () => {
+      const request: StubRequest = { method: req.method ?? 'GET', url: req.url ?? '/', headers: req.headers, body: text ? JSON.parse(text) : null };
+      requests.push(request);
+      const reply = handler(request);
+      res.statusCode = reply.status ?? 200;
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify(reply.body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())))
+  };
+}
+
+export function inputs(request: StubRequest): string[] {
+  const { input } = (request.body ?? {}) as { input?: unknown };
+  assert.ok(Array.isArray(input) && input.every((item) => typeof item === 'string'), `expected string inputs in ${request.url}`);
+  return input as string[];
+}
+
+export function prompt(request: StubRequest): string {
+  const { prompt: text } = (request.body ?? {}) as { prompt?: unknown };
+  assert.equal(typeof text, 'string', `expected a prompt in ${request.url}`);
+  return text as string;
+}
+
+export function fakeVector(text: string): number[] {
+  return [text.length, text.charCodeAt(0) || 0];
+}
@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import process from 'node:process';
+import { after, before, beforeEach, test } from 'node:test';
+
+import { startStub, type Stub } from './stub.js';
+
+type Status = 'enqueued' | 'processing' | 'succeeded' | 'failed';
+
+let stub: Stub;
+let statuses: Map<number, Status[]>;
+let createTaskTracker: typeof import('../src/tasks.js').createTaskTracker;
+
+before(async () => {
+  stub = await startStub((request) => {
+    const uids = (new URL(request.url, stub.url).searchParams.get('uids') ?? '').split(',').map(Number);
+    const results = uids.filter((uid) => statuses.has(uid)).map((uid) => {
+      const queue = statuses.get(uid)!;
+      const status = queue.length > 1 ? queue.shift()! : queue[0];
+      return { uid, status, type: 'documentAdditionOrUpdate', error: status === 'failed' ? { message: 'invalid document' } : null };
+    });
+    return { body: { results } };
+  });
+  Object.assign(process.env, { MEILI_URL: stub.url, INDEX_UID: 'repo' });
+  ({ createTaskTracker } = await import('../src/tasks.js'));
+});
+
+after(() => stub.close());
+
+beforeEach(() => {
+  stub.requests.length = 0;
+});
+
+test('polls until tasks finish and reports failed files', async () => {
+  statuses = new Map<number, Status[]>([[1, ['enqueued', 'processing', 'succeeded']], [2, ['failed']]]);
+  const logs: Array<Record<string, unknown>> = [];
+  const tracker = createTaskTracker((payload) => logs.push(payload));
+  tracker.track([1], { action: 'add', files: ['a.ts', 'b.ts'] });
+  tracker.track(2, { action: 'delete', file: 'c.ts' });
+  tracker.track(null, { action: 'delete', file: 'ignored.ts' });
+  assert.equal(tracker.pending(), 2);
+
+  assert.deepEqual(await tracker.settle(), { succeeded: 1, failed: 1, failedFiles: ['c.ts'] });
+  assert.equal(tracker.pending(), 0);
+  assert.equal(stub.requests.length, 3);
+  assert.deepEqual(logs, [{ event: 'error', task: 2, message: 'Meilisearch task failed', type: 'documentAdditionOrUpdate', status: 'failed', detail: 'invalid document', action: 'delete', file: 'c.ts' }]);
+});
+
+test('fails tasks that Meilisearch no longer knows without waiting for the timeout', async () => {
+  statuses = new Map<number, Status[]>([[10, ['succeeded']]]);
+  const logs: Array<Record<string, unknown>> = [];
+  const tracker = createTaskTracker((payload) => logs.push(payload));
+  tracker.track([10, 11], { action: 'add', files: ['d.ts'] });
+
+  assert.deepEqual(await tracker.settle(), { succeeded: 1, failed: 1, failedFiles: ['d.ts'] });
+  assert.equal(stub.requests.length, 1);
+  assert.equal(stub.requests[0].url, '/tasks?uids=10,11&limit=2');
+  assert.deepEqual(logs.map((payload) => [payload.task, payload.message]), [[11, 'Meilisearch task not found']]);
+});